@@ -0,0 +1,71 @@
+/**
+ * Merges agendas into a daily note the way the agenda sync does. Run with
+ * `npm run check:agenda`.
+ *
+ * Covers the keys lines are tracked by (a moved event keeps its line, two
+ * occurrences of one recurring event on the same day get a line each) and
+ * what rewriting keeps: checkboxes, text typed after a line and lines the
+ * user added under it.
+ */
+
+import { AGENDA_END, AGENDA_START, agendaEntryKey, mergeAgendaBlock } from "../src/agendaMerge";
+import type { AgendaEntry } from "../src/agendaMerge";
+import type { CalendarEvent } from "../src/types";
+
+const HEADING = "Calendar Events";
+
+function event(uid: string, subject: string, start: string, recurring = false): CalendarEvent {
+  const end = new Date(new Date(start).getTime() + 30 * 60 * 1000).toISOString();
+  return { id: uid + start, uid, subject, start, end, recurring };
+}
+
+function entries(events: CalendarEvent[]): AgendaEntry[] {
+  return events.map((e) => ({ key: agendaEntryKey(e), text: `- [ ] ${e.start.slice(11, 16)} ${e.subject}` }));
+}
+
+function block(content: string): string[] {
+  const lines = content.split("\n");
+  return lines.slice(lines.indexOf(AGENDA_START) + 1, lines.indexOf(AGENDA_END));
+}
+
+function check(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Check failed: ${message}`);
+  console.log(`  ok  ${message}`);
+}
+
+function main() {
+  const note = `# 2025-06-02\n\n## ${HEADING}\n\nNotes below.\n`;
+
+  console.log("recurring occurrences");
+  const standup = [
+    event("standup", "Standup", "2025-06-02T09:00:00.000Z", true),
+    event("standup", "Standup", "2025-06-02T15:00:00.000Z", true),
+  ];
+  let content = mergeAgendaBlock(note, entries(standup), HEADING, true);
+  let lines = block(content);
+  check(lines.length === 2, "two occurrences with one UID on the same day get a line each");
+  check(lines[0].includes("09:00") && lines[1].includes("15:00"), "in the order they were given");
+  check(mergeAgendaBlock(content, entries(standup), HEADING, true) === content, "merging again changes nothing");
+
+  // Check the afternoon occurrence and type after it
+  content = content.replace(/- \[ \] (15:00 Standup %%oce:[^%]*%%)/, "- [x] $1 moved to the afternoon");
+  lines = block(mergeAgendaBlock(content, entries(standup), HEADING, true));
+  check(lines[0].startsWith("- [ ]") && lines[1].startsWith("- [x]"), "only the checked occurrence stays checked");
+  check(lines[1].endsWith("moved to the afternoon") && !lines[0].includes("moved"), "and keeps its own note");
+
+  lines = block(mergeAgendaBlock(content, entries(standup.slice(0, 1)), HEADING, true));
+  check(lines.length === 1 && lines[0].includes("09:00"), "pruning removes just the occurrence that is gone");
+
+  console.log("single events");
+  const review = event("review", "Review", "2025-06-02T11:00:00.000Z");
+  content = mergeAgendaBlock(note, entries([review]), HEADING, true);
+  content = content.replace("- [ ]", "- [x]").replace("%%oce:review%%", "%%oce:review%%\n  - prepare slides");
+  const moved = { ...review, id: "review2025-06-02T13:00:00.000Z", start: "2025-06-02T13:00:00.000Z" };
+  lines = block(mergeAgendaBlock(content, entries([moved]), HEADING, true));
+  check(lines.length === 2 && lines[0].includes("13:00"), "a moved event keeps its line, keyed by UID");
+  check(lines[0].startsWith("- [x]") && lines[1] === "  - prepare slides", "with its checkbox and sub-items");
+
+  console.log("All agenda checks passed.");
+}
+
+main();
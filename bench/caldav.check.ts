@@ -0,0 +1,269 @@
+/**
+ * Runs the CalDAV client against an in-memory server. Run with
+ * `npm run check:caldav`.
+ *
+ * The stand-in serves one account with one calendar and records every
+ * change, so the checks cover discovery, the first calendar-query, updates
+ * through sync-collection (including a deleted object reported as 404), and
+ * the full query the client falls back to when the server rejects its token.
+ */
+
+import { DOMParser } from "@xmldom/xmldom";
+import { CalDavClient } from "../src/caldav";
+import type { DavRequest, DavResponse, DavTransport } from "../src/caldav";
+import type { EventRange } from "../src/types";
+import { basicAuthHeader, HttpError } from "../src/utils/http";
+
+// The client parses responses with the browser's DOMParser
+(globalThis as any).DOMParser = DOMParser;
+
+const ORIGIN = "https://dav.test";
+const ROOT = "/dav/";
+const PRINCIPAL = "/dav/principals/alice/";
+const HOME = "/dav/calendars/alice/";
+const CALENDAR = "/dav/calendars/alice/work/";
+const TOKEN_PREFIX = `${ORIGIN}/sync/`;
+
+const USERNAME = "alice";
+const PASSWORD = "secret";
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function multistatus(responses: string[], extra = ""): string {
+  return (
+    `<?xml version="1.0" encoding="utf-8"?>` +
+    `<D:multistatus xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">` +
+    responses.join("") +
+    extra +
+    `</D:multistatus>`
+  );
+}
+
+function found(href: string, props: string): string {
+  return (
+    `<D:response><D:href>${href}</D:href>` +
+    `<D:propstat><D:prop>${props}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat>` +
+    `</D:response>`
+  );
+}
+
+function gone(href: string): string {
+  return `<D:response><D:href>${href}</D:href><D:status>HTTP/1.1 404 Not Found</D:status></D:response>`;
+}
+
+function vevent(uid: string, summary: string, day: string): string {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `SUMMARY:${summary}`,
+    `DTSTART:${day}T090000Z`,
+    `DTEND:${day}T100000Z`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+}
+
+/**
+ * In-memory CalDAV server. Every change bumps the sync token; sync-collection
+ * reports the objects changed since a token with their ETag only, so the
+ * client has to fetch them with calendar-multiget.
+ */
+class FakeDavServer {
+  // calendar-data by object path
+  private objects = new Map<string, string>();
+  private changes: { token: number; path: string }[] = [];
+  private token = 1;
+  // Tokens older than this are refused, as after a server-side reset
+  private oldestToken = 1;
+
+  // "METHOD path request" for every request, e.g. "REPORT /dav/... sync-collection"
+  log: string[] = [];
+
+  put(name: string, ics: string) {
+    this.change(`${CALENDAR}${name}`);
+    this.objects.set(`${CALENDAR}${name}`, ics);
+  }
+
+  remove(name: string) {
+    this.change(`${CALENDAR}${name}`);
+    this.objects.delete(`${CALENDAR}${name}`);
+  }
+
+  expireTokens() {
+    this.oldestToken = ++this.token;
+  }
+
+  transport: DavTransport = async (req: DavRequest): Promise<DavResponse> => {
+    const path = new URL(req.url).pathname;
+    const kind = req.body?.match(/<[A-Z]+:([\w-]+)/)?.[1] ?? "";
+    this.log.push(`${req.method} ${path} ${kind}`);
+
+    if (req.headers.Authorization !== basicAuthHeader(USERNAME, PASSWORD)) {
+      return { status: 401, text: "" };
+    }
+    if (req.method === "PROPFIND") return this.propfind(path, req.headers.Depth);
+    if (req.method === "REPORT" && path === CALENDAR) {
+      if (kind === "calendar-query") return this.query(req.body ?? "");
+      if (kind === "sync-collection") return this.sync(req.body ?? "");
+      if (kind === "calendar-multiget") return this.multiget(req.body ?? "");
+    }
+    return { status: 400, text: "" };
+  };
+
+  private change(path: string) {
+    this.changes.push({ token: ++this.token, path });
+  }
+
+  private syncToken(): string {
+    return `<D:sync-token>${TOKEN_PREFIX}${this.token}</D:sync-token>`;
+  }
+
+  private propfind(path: string, depth: string): DavResponse {
+    const collection = "<D:resourcetype><D:collection/></D:resourcetype>";
+    const calendar =
+      "<D:resourcetype><D:collection/><C:calendar/></D:resourcetype>" +
+      `<D:displayname>Work</D:displayname>${this.syncToken()}`;
+
+    if (path === ROOT) {
+      return {
+        status: 207,
+        text: multistatus([
+          found(path, `${collection}<D:current-user-principal><D:href>${PRINCIPAL}</D:href></D:current-user-principal>`),
+        ]),
+      };
+    }
+    if (path === PRINCIPAL) {
+      return {
+        status: 207,
+        text: multistatus([found(path, `<C:calendar-home-set><D:href>${HOME}</D:href></C:calendar-home-set>`)]),
+      };
+    }
+    if (path === HOME) {
+      const children = depth === "1" ? [found(CALENDAR, calendar)] : [];
+      return { status: 207, text: multistatus([found(path, collection), ...children]) };
+    }
+    if (path === CALENDAR) return { status: 207, text: multistatus([found(path, calendar)]) };
+    return { status: 404, text: "" };
+  }
+
+  private query(body: string): DavResponse {
+    const component = body.match(/comp-filter name="(VEVENT|VTODO)"/)?.[1] ?? "VEVENT";
+    const responses = [...this.objects]
+      .filter(([, ics]) => ics.includes(`BEGIN:${component}`))
+      .map(([path, ics]) =>
+        found(path, `<D:getetag>"${path}"</D:getetag><C:calendar-data>${escapeXml(ics)}</C:calendar-data>`)
+      );
+    return { status: 207, text: multistatus(responses) };
+  }
+
+  private sync(body: string): DavResponse {
+    const since = Number(body.match(/<D:sync-token>([^<]*)<\/D:sync-token>/)?.[1].replace(TOKEN_PREFIX, ""));
+    if (!Number.isInteger(since) || since < this.oldestToken) {
+      return {
+        status: 403,
+        text: `<?xml version="1.0" encoding="utf-8"?><D:error xmlns:D="DAV:"><D:valid-sync-token/></D:error>`,
+      };
+    }
+
+    const changed = new Set(this.changes.filter((c) => c.token > since).map((c) => c.path));
+    const responses = [...changed].map((path) =>
+      this.objects.has(path) ? found(path, `<D:getetag>"${path}-${this.token}"</D:getetag>`) : gone(path)
+    );
+    return { status: 207, text: multistatus(responses, this.syncToken()) };
+  }
+
+  private multiget(body: string): DavResponse {
+    const paths = [...body.matchAll(/<D:href>([^<]*)<\/D:href>/g)].map((m) => m[1]);
+    const responses = paths.map((path) => {
+      const ics = this.objects.get(path);
+      return ics ? found(path, `<C:calendar-data>${escapeXml(ics)}</C:calendar-data>`) : gone(path);
+    });
+    return { status: 207, text: multistatus(responses) };
+  }
+}
+
+function check(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Check failed: ${message}`);
+  console.log(`  ok  ${message}`);
+}
+
+function summaries(data: string[]): string {
+  return data
+    .map((ics) => ics.match(/^SUMMARY:(.*)$/m)?.[1] ?? "?")
+    .sort()
+    .join(", ");
+}
+
+/**
+ * Requests made by `run`, as logged by the server.
+ */
+async function requestsDuring(server: FakeDavServer, run: () => Promise<unknown>): Promise<string[]> {
+  const before = server.log.length;
+  await run();
+  return server.log.slice(before);
+}
+
+async function main() {
+  const server = new FakeDavServer();
+  server.put("a.ics", vevent("a", "Planning", "20250602"));
+  server.put("b.ics", vevent("b", "Review", "20250603"));
+
+  const client = new CalDavClient(
+    { url: `${ORIGIN}${ROOT}`, username: USERNAME, password: PASSWORD },
+    server.transport
+  );
+  const range: EventRange = { start: new Date("2025-06-01T00:00:00Z"), end: new Date("2025-06-08T00:00:00Z") };
+  const isQuery = (r: string) => r.endsWith("calendar-query");
+  const isSync = (r: string) => r.endsWith("sync-collection");
+
+  console.log("discover");
+  const collections = await client.discover();
+  check(collections.length === 1, "finds the one calendar through the principal and home set");
+  check(collections[0].href === `${ORIGIN}${CALENDAR}` && collections[0].name === "Work", "reads its href and name");
+
+  console.log("calendar-query");
+  let data: string[] = [];
+  let requests = await requestsDuring(server, async () => (data = await client.fetchCalendarData(range)));
+  check(requests.some(isQuery), "first load runs a calendar-query");
+  check(summaries(data) === "Planning, Review", "returns every object in the window");
+
+  console.log("sync-collection");
+  server.put("a.ics", vevent("a", "Planning (moved)", "20250604"));
+  server.remove("b.ics");
+  server.put("c.ics", vevent("c", "Retro", "20250605"));
+  requests = await requestsDuring(server, async () => (data = await client.fetchCalendarData(range)));
+  check(requests.some(isSync) && !requests.some(isQuery), "later loads only ask for changes");
+  check(requests.some((r) => r.endsWith("calendar-multiget")), "changed objects without data are fetched by multiget");
+  check(summaries(data) === "Planning (moved), Retro", "applies the update, the addition and the 404 deletion");
+
+  requests = await requestsDuring(server, async () => (data = await client.fetchCalendarData(range)));
+  check(requests.length === 1 && isSync(requests[0]), "an unchanged calendar costs one request");
+  check(summaries(data) === "Planning (moved), Retro", "and keeps its objects");
+
+  console.log("rejected sync token");
+  server.expireTokens();
+  server.put("d.ics", vevent("d", "Offsite", "20250606"));
+  requests = await requestsDuring(server, async () => (data = await client.fetchCalendarData(range)));
+  check(requests.some(isSync) && requests.some(isQuery), "falls back to a full calendar-query");
+  check(summaries(data) === "Offsite, Planning (moved), Retro", "and returns the current objects");
+
+  console.log("credentials");
+  const rejected = new CalDavClient(
+    { url: `${ORIGIN}${ROOT}`, username: USERNAME, password: "wrong" },
+    server.transport
+  );
+  const error = await rejected.discover().then(
+    () => null,
+    (err) => err
+  );
+  check(error instanceof HttpError && error.status === 401, "a wrong password fails with HTTP 401");
+
+  console.log("All CalDAV checks passed.");
+}
+
+// An unhandled rejection exits with a failure status
+main();
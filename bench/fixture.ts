@@ -0,0 +1,103 @@
+/**
+ * Generates an Exchange-style ICS export with years of history: a custom
+ * VTIMEZONE, folded descriptions, attendees, alarms, and weekly series with
+ * exceptions and overrides. Deterministic, so runs are comparable.
+ */
+
+export interface FixtureOptions {
+  years: number;
+  eventsPerDay: number;
+  series: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function stamp(d: Date): string {
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}00`;
+}
+
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) parts.push((i ? " " : "") + line.slice(i, i + 74));
+  return parts.join("\r\n");
+}
+
+export function generateFeed(opts: FixtureOptions, today = new Date()): string {
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:Microsoft Exchange Server 2010",
+    "BEGIN:VTIMEZONE",
+    "TZID:W. Europe Standard Time",
+    "BEGIN:STANDARD",
+    "DTSTART:16010101T030000",
+    "TZOFFSETFROM:+0200",
+    "TZOFFSETTO:+0100",
+    "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=10",
+    "END:STANDARD",
+    "BEGIN:DAYLIGHT",
+    "DTSTART:16010101T020000",
+    "TZOFFSETFROM:+0100",
+    "TZOFFSETTO:+0200",
+    "RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=-1SU;BYMONTH=3",
+    "END:DAYLIGHT",
+    "END:VTIMEZONE",
+  ];
+
+  const tz = "TZID=W. Europe Standard Time";
+  const first = new Date(Date.UTC(today.getUTCFullYear() - opts.years, today.getUTCMonth(), today.getUTCDate()));
+  const days = opts.years * 365 + 30;
+  const description =
+    "DESCRIPTION:Agenda\\n- Review of last week's action items\\n- Status per workstream" +
+    "\\n- Risks and blockers\\n\\nJoin the meeting: https://teams.example.com/l/meetup-join/19%3ameeting";
+
+  for (let day = 0; day < days; day++) {
+    for (let i = 0; i < opts.eventsPerDay; i++) {
+      const start = new Date(first.getTime() + day * 86400000 + (8 + i) * 3600000);
+      const end = new Date(start.getTime() + 45 * 60000);
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:evt-${day}-${i}@example.com`,
+        `SUMMARY:Meeting ${day}-${i}`,
+        `DTSTART;${tz}:${stamp(start)}`,
+        `DTEND;${tz}:${stamp(end)}`,
+        "LOCATION:Room 4.12",
+        fold(description),
+        'ORGANIZER;CN="Doe, Jane":mailto:jane.doe@example.com',
+        'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;CN="Smith, John":mailto:john.smith@example.com',
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        "DESCRIPTION:REMINDER",
+        "TRIGGER;RELATED=START:-PT15M",
+        "END:VALARM",
+        "END:VEVENT"
+      );
+    }
+  }
+
+  for (let s = 0; s < opts.series; s++) {
+    const start = new Date(first.getTime() + (s % 7) * 86400000 + (12 + (s % 5)) * 3600000);
+    const exdate = new Date(start.getTime() + 7 * 86400000 * 10);
+    const moved = new Date(start.getTime() + 7 * 86400000 * 20);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:series-${s}@example.com`,
+      `SUMMARY:Weekly sync ${s}`,
+      `DTSTART;${tz}:${stamp(start)}`,
+      `DTEND;${tz}:${stamp(new Date(start.getTime() + 30 * 60000))}`,
+      "RRULE:FREQ=WEEKLY;INTERVAL=1",
+      `EXDATE;${tz}:${stamp(exdate)}`,
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      `UID:series-${s}@example.com`,
+      `RECURRENCE-ID;${tz}:${stamp(moved)}`,
+      `SUMMARY:Weekly sync ${s} (moved)`,
+      `DTSTART;${tz}:${stamp(new Date(moved.getTime() + 3600000))}`,
+      `DTEND;${tz}:${stamp(new Date(moved.getTime() + 5400000))}`,
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.join("\r\n");
+}
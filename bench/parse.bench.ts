@@ -0,0 +1,75 @@
+/**
+ * Parser benchmark on a large generated feed. Run with `npm run bench`.
+ *
+ * Compares the visible-window parse (what the plugin does) with parsing every
+ * event of the feed, which is the work the parser did before one-off events
+ * outside the window were skipped. Also reports the longest stretch the
+ * parser kept the event loop busy.
+ */
+
+import { parseICS } from "../src/icsParser";
+import type { EventRange } from "../src/types";
+import { generateFeed } from "./fixture";
+
+const RUNS = 5;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Times a parse while a timer probes the event loop; returns the duration
+ * and the longest gap between probe ticks.
+ */
+async function measure(run: () => Promise<unknown>): Promise<{ ms: number; blockedMs: number }> {
+  let last = performance.now();
+  let blockedMs = 0;
+  const probe = setInterval(() => {
+    const now = performance.now();
+    blockedMs = Math.max(blockedMs, now - last);
+    last = now;
+  }, 1);
+
+  const start = performance.now();
+  await run();
+  const ms = performance.now() - start;
+
+  clearInterval(probe);
+  blockedMs = Math.max(blockedMs, performance.now() - last);
+  return { ms, blockedMs };
+}
+
+async function bench(label: string, run: () => Promise<unknown>) {
+  const results = [];
+  for (let i = 0; i < RUNS; i++) results.push(await measure(run));
+  const ms = median(results.map((r) => r.ms));
+  const blockedMs = median(results.map((r) => r.blockedMs));
+  console.log(`${label.padEnd(28)} ${ms.toFixed(1).padStart(8)} ms   longest block ${blockedMs.toFixed(1)} ms`);
+  return ms;
+}
+
+async function main() {
+  const today = new Date();
+  const text = generateFeed({ years: 5, eventsPerDay: 6, series: 150 }, today);
+  console.log(`Fixture: ${(text.length / 1024 / 1024).toFixed(1)} MB\n`);
+
+  const week: EventRange = {
+    start: new Date(today.getTime() - 86400000),
+    end: new Date(today.getTime() + 7 * 86400000),
+  };
+  const everything: EventRange = {
+    start: new Date(today.getTime() - 6 * 365 * 86400000),
+    end: new Date(today.getTime() + 31 * 86400000),
+  };
+
+  const all = await bench("Every event (full history)", () => parseICS(text, everything));
+  const windowed = await bench("Visible window (8 days)", () => parseICS(text, week));
+  await bench("Visible window + raw", () => parseICS(text, week, { includeRaw: true }));
+
+  const { events } = await parseICS(text, week);
+  console.log(`\n${events.length} events in the window, ${(all / windowed).toFixed(1)}x faster than a full parse`);
+}
+
+// An unhandled rejection fails the run with a non-zero exit code
+main();
@@ -0,0 +1,24 @@
+import typescript from "@rollup/plugin-typescript";
+import commonjs from "@rollup/plugin-commonjs";
+import resolve from "@rollup/plugin-node-resolve";
+
+// Bundles the parser benchmark and the checks for Node
+// (see `npm run bench`, `npm run check:caldav` and `npm run check:agenda`)
+const bundle = (name) => ({
+  input: `bench/${name}.ts`,
+  output: {
+    file: `bench/dist/${name}.cjs`,
+    format: "cjs",
+  },
+  plugins: [
+    resolve({
+      preferBuiltins: true,
+    }),
+    commonjs(),
+    typescript({
+      tsconfig: "./bench/tsconfig.json",
+    }),
+  ],
+});
+
+export default [bundle("parse.bench"), bundle("caldav.check"), bundle("agenda.check")];
@@ -0,0 +1,112 @@
+import moment from "moment";
+
+/**
+ * Options of a `calendar-events` code block, one `key: value` per line:
+ *
+ *   range: next 7 days
+ *   calendars: Work, Personal
+ *   filter: loc:room standup
+ *   layout: table
+ */
+export interface AgendaOptions {
+  // today, tomorrow, yesterday, this/next/last week or month, next/past N days,
+  // a date (YYYY-MM-DD), an offset (+3d, -1w, +1m) or a "from..to" pair of those
+  range: string;
+  // Calendar names or ids; empty shows every enabled calendar
+  calendars: string[];
+  // Quick filter syntax of the calendar view (words, cal:, loc:)
+  filter: string;
+  layout: "list" | "table";
+}
+
+export interface ParsedAgendaOptions {
+  options: AgendaOptions;
+  errors: string[];
+}
+
+export function parseAgendaOptions(source: string): ParsedAgendaOptions {
+  const options: AgendaOptions = { range: "today", calendars: [], filter: "", layout: "list" };
+  const errors: string[] = [];
+
+  for (const raw of source.split("\n")) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const m = line.match(/^([a-z]+)\s*:\s*(.*)$/i);
+    if (!m) {
+      errors.push(`Expected "key: value", got "${line}"`);
+      continue;
+    }
+    const value = m[2].trim();
+    switch (m[1].toLowerCase()) {
+      case "range":
+        options.range = value || "today";
+        break;
+      case "calendars":
+        options.calendars = value.split(",").map((c) => c.trim()).filter(Boolean);
+        break;
+      case "filter":
+        options.filter = value;
+        break;
+      case "layout":
+        if (value === "list" || value === "table") options.layout = value;
+        else errors.push(`Unknown layout "${value}" (use list or table)`);
+        break;
+      default:
+        errors.push(`Unknown option "${m[1]}"`);
+    }
+  }
+  return { options, errors };
+}
+
+/**
+ * Reads one end of a range: a date, "today", or an offset from today.
+ */
+function resolvePoint(spec: string, today: moment.Moment): moment.Moment | null {
+  if (spec === "today" || spec === "0") return today.clone();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(spec)) {
+    const date = moment(spec, "YYYY-MM-DD", true);
+    return date.isValid() ? date : null;
+  }
+  const m = spec.match(/^([+-]\d+)([dwm]?)$/);
+  if (!m) return null;
+  const unit = m[2] === "w" ? "weeks" : m[2] === "m" ? "months" : "days";
+  return today.clone().add(parseInt(m[1]), unit);
+}
+
+/**
+ * Resolves a range spec to its first and last day (inclusive), relative to
+ * `today`. Returns null when the spec can't be read.
+ */
+export function resolveAgendaRange(
+  spec: string,
+  today: moment.Moment
+): { from: moment.Moment; to: moment.Moment } | null {
+  const s = spec.trim().toLowerCase().replace(/\s+/g, " ");
+  const base = today.clone().startOf("day");
+
+  if (s === "tomorrow") return { from: base.clone().add(1, "day"), to: base.clone().add(1, "day") };
+  if (s === "yesterday") return { from: base.clone().subtract(1, "day"), to: base.clone().subtract(1, "day") };
+
+  const period = s.match(/^(this|next|last) (week|month)$/);
+  if (period) {
+    const unit = period[2] as "week" | "month";
+    const offset = period[1] === "next" ? 1 : period[1] === "last" ? -1 : 0;
+    const from = base.clone().add(offset, unit).startOf(unit);
+    return { from, to: from.clone().endOf(unit).startOf("day") };
+  }
+
+  const days = s.match(/^(next|past|last) (\d+) days?$/);
+  if (days) {
+    const n = Math.max(parseInt(days[2]), 1);
+    return days[1] === "next"
+      ? { from: base.clone(), to: base.clone().add(n - 1, "days") }
+      : { from: base.clone().subtract(n - 1, "days"), to: base.clone() };
+  }
+
+  const [start, end = start] = s.split("..").map((p) => p.trim());
+  const from = resolvePoint(start, base);
+  const to = resolvePoint(end, base);
+  if (!from || !to || to.isBefore(from)) return null;
+  return { from, to };
+}
@@ -0,0 +1,123 @@
+import type { CalendarEvent } from "./types";
+
+/**
+ * Agenda block of a daily note, kept in step with the calendars. The block
+ * sits between two markers under the configured heading; the first line of
+ * every event ends in a hidden `%%oce:<key>%%` comment (see `agendaEntryKey`)
+ * so it can be found again (`%%oce:<key>|3%%` when its template renders
+ * several lines).
+ * Rewriting keeps each event's checkbox state and anything typed after the
+ * comment, as well as lines the user added inside the block.
+ */
+
+export const AGENDA_START = "<!-- calendar-events:start -->";
+export const AGENDA_END = "<!-- calendar-events:end -->";
+
+const KEY_RE = / ?%%oce:([^%|]*)(?:\|(\d+))?%%/;
+const CHECKBOX_RE = /^(\s*[-*+] \[)(.)(\])/;
+
+export interface AgendaEntry {
+  key: string;
+  text: string;
+}
+
+interface ExistingLine {
+  // The event's own lines as written, the keyed one first
+  lines: string[];
+  checkbox?: string;
+  // Text after the key comment
+  suffix: string;
+  // Unkeyed lines that followed the line (sub-items, notes)
+  children: string[];
+}
+
+/**
+ * Writes `entries` into the agenda block of a note and returns the new
+ * content. Lines of events no longer in `entries` are removed only when
+ * `prune` is set; their user-added lines are kept at the end of the block.
+ */
+export function mergeAgendaBlock(
+  content: string,
+  entries: AgendaEntry[],
+  heading: string,
+  prune: boolean
+): string {
+  const lines = content.split("\n");
+  const start = lines.indexOf(AGENDA_START);
+  const end = start === -1 ? -1 : lines.indexOf(AGENDA_END, start + 1);
+  const hasBlock = start !== -1 && end !== -1;
+  if (!hasBlock && !entries.length) return content;
+
+  // Read the current block
+  const leading: string[] = [];
+  const existing = new Map<string, ExistingLine>();
+  const order: string[] = [];
+  let current: ExistingLine | null = null;
+  const inside = hasBlock ? lines.slice(start + 1, end) : [];
+  for (let i = 0; i < inside.length; i++) {
+    const line = inside[i];
+    const m = line.match(KEY_RE);
+    if (!m) {
+      (current ? current.children : leading).push(line);
+      continue;
+    }
+    const count = Math.max(Number(m[2] ?? 1), 1);
+    current = {
+      lines: inside.slice(i, i + count),
+      checkbox: line.match(CHECKBOX_RE)?.[2],
+      suffix: line.slice((m.index ?? 0) + m[0].length),
+      children: [],
+    };
+    i += count - 1;
+    existing.set(m[1], current);
+    order.push(m[1]);
+  }
+
+  const block: string[] = [...leading];
+  const written = new Set<string>();
+  const write = (key: string, text: string) => {
+    const old = existing.get(key);
+    const [first, ...rest] = text.replace(/\n+$/, "").split("\n");
+    const line = old?.checkbox ? first.replace(CHECKBOX_RE, `$1${old.checkbox}$3`) : first;
+    const marker = rest.length ? `%%oce:${key}|${rest.length + 1}%%` : `%%oce:${key}%%`;
+    block.push(`${line} ${marker}${old?.suffix ?? ""}`, ...rest, ...(old?.children ?? []));
+    written.add(key);
+  };
+  for (const entry of entries) {
+    if (!written.has(entry.key)) write(entry.key, entry.text);
+  }
+
+  // Lines of events that are gone stay unless pruning; what the user wrote
+  // under them is always kept
+  for (const key of order) {
+    if (written.has(key)) continue;
+    const old = existing.get(key)!;
+    if (!prune) block.push(...old.lines);
+    block.push(...old.children);
+  }
+
+  const blockLines = [AGENDA_START, ...block, AGENDA_END];
+  if (hasBlock) {
+    lines.splice(start, end - start + 1, ...blockLines);
+    return lines.join("\n");
+  }
+
+  // New block right under the heading, or a new heading at the end
+  const escaped = heading.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const headingRe = new RegExp(`^#{1,6}\\s+${escaped}\\s*$`);
+  const index = lines.findIndex((l) => headingRe.test(l));
+  if (index !== -1) {
+    lines.splice(index + 1, 0, "", ...blockLines);
+    return lines.join("\n");
+  }
+  return `${content.trimEnd()}\n\n## ${heading}\n\n${blockLines.join("\n")}\n`;
+}
+
+/**
+ * Key an event line is tracked by: its UID, or its id when it has none.
+ * Occurrences of a recurring event share their UID, so they use their id,
+ * which adds the occurrence's start.
+ */
+export function agendaEntryKey(e: CalendarEvent): string {
+  return (e.recurring ? e.id : e.uid || e.id).replace(/[%|]/g, "");
+}
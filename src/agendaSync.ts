@@ -0,0 +1,61 @@
+import { App, TFile } from "obsidian";
+import moment from "moment";
+import { getDateFromFile } from "obsidian-daily-notes-interface";
+import { agendaEntryKey, mergeAgendaBlock } from "./agendaMerge";
+import type { CalendarClient } from "./graph";
+import { formatEventForNote } from "./templates";
+import type { ObsidianCalendarSettings } from "./types";
+import { compareByTime, getEventDays } from "./utils/eventDays";
+
+/**
+ * Keeps the agenda block of daily notes (see `mergeAgendaBlock`) in step
+ * with the calendars.
+ */
+export class AgendaSync {
+  constructor(
+    private app: App,
+    private settings: ObsidianCalendarSettings,
+    private calendar: CalendarClient
+  ) {}
+
+  /**
+   * Date of a daily note, or null for other files.
+   */
+  dailyNoteDate(file: TFile): moment.Moment | null {
+    return file.extension === "md" ? getDateFromFile(file, "day") : null;
+  }
+
+  /**
+   * Rewrites the agenda block of a daily note from that day's events.
+   */
+  async sync(file: TFile) {
+    const date = this.dailyNoteDate(file);
+    if (!date) return;
+
+    const day = date.format("YYYY-MM-DD");
+    const range = { start: date.clone().startOf("day").toDate(), end: date.clone().endOf("day").toDate() };
+    // Read from the last load of each source, without a request
+    const events = await this.calendar.fetchEvents({ ...range, reload: [] });
+
+    const entries = events
+      .filter((e) => e.status !== "CANCELLED" && getEventDays(e).includes(day))
+      .sort(compareByTime)
+      .map((e) => ({ key: agendaEntryKey(e), text: formatEventForNote(e, this.settings) }));
+
+    // Feeds often drop old history, and a failed or not yet loaded source
+    // returns nothing, so only remove lines for today and later when every
+    // source has loaded this day
+    const prune =
+      day >= moment().format("YYYY-MM-DD") &&
+      !this.calendar.getFailedSources().length &&
+      this.calendar.coversRange(range);
+
+    const heading = this.settings.headingName || "Calendar Events";
+    const merge = (content: string) => mergeAgendaBlock(content, entries, heading, prune);
+
+    // Opening a note shouldn't touch it when nothing changed
+    const current = await this.app.vault.read(file);
+    if (merge(current) === current) return;
+    await this.app.vault.process(file, merge);
+  }
+}
@@ -0,0 +1,324 @@
+import type { EventRange } from "./types";
+import { basicAuthHeader, HttpError } from "./utils/http";
+
+/**
+ * Minimal CalDAV client (RFC 4791 / RFC 6578).
+ * Discovers calendars with PROPFIND, loads the visible window with a
+ * calendar-query REPORT, and keeps up to date with sync-collection.
+ * Requests go through a transport, so the client runs without Obsidian
+ * against an in-memory stand-in (see bench/caldav.check.ts).
+ */
+
+const DAV = "DAV:";
+const CALDAV = "urn:ietf:params:xml:ns:caldav";
+
+export interface DavRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface DavResponse {
+  status: number;
+  text: string;
+}
+
+export type DavTransport = (req: DavRequest) => Promise<DavResponse>;
+
+export interface CalDavOptions {
+  url: string;
+  username: string;
+  password: string;
+}
+
+export interface CalDavCollection {
+  href: string;
+  name: string;
+  syncToken?: string;
+}
+
+interface CollectionState {
+  rangeKey: string;
+  syncToken?: string;
+  // calendar-data by object href
+  objects: Map<string, string>;
+}
+
+interface MultistatusEntry {
+  href: string;
+  status: number;
+  props: Element | null;
+}
+
+function formatUTC(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").split(".")[0] + "Z";
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&'"]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function parseStatus(text: string | null | undefined): number {
+  const m = text?.match(/HTTP\/[\d.]+\s+(\d{3})/);
+  return m ? +m[1] : 0;
+}
+
+/**
+ * Reads a 207 Multi-Status body into one entry per <response>, keeping only
+ * the successful propstat.
+ */
+function parseMultistatus(text: string): MultistatusEntry[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const entries: MultistatusEntry[] = [];
+
+  for (const res of Array.from(doc.getElementsByTagNameNS(DAV, "response"))) {
+    const href = res.getElementsByTagNameNS(DAV, "href")[0]?.textContent?.trim();
+    if (!href) continue;
+
+    let props: Element | null = null;
+    let status = parseStatus(
+      Array.from(res.childNodes).find((c) => (c as Element).localName === "status")?.textContent
+    );
+    for (const propstat of Array.from(res.getElementsByTagNameNS(DAV, "propstat"))) {
+      const code = parseStatus(propstat.getElementsByTagNameNS(DAV, "status")[0]?.textContent);
+      if (code >= 200 && code < 300) {
+        props = propstat.getElementsByTagNameNS(DAV, "prop")[0] ?? null;
+        status = code;
+      }
+    }
+    entries.push({ href, status, props });
+  }
+
+  return entries;
+}
+
+function propText(props: Element | null, ns: string, name: string): string | undefined {
+  return props?.getElementsByTagNameNS(ns, name)[0]?.textContent?.trim() || undefined;
+}
+
+function propHref(props: Element | null, ns: string, name: string): string | undefined {
+  const el = props?.getElementsByTagNameNS(ns, name)[0];
+  return el?.getElementsByTagNameNS(DAV, "href")[0]?.textContent?.trim() || undefined;
+}
+
+function isCalendar(props: Element | null): boolean {
+  const type = props?.getElementsByTagNameNS(DAV, "resourcetype")[0];
+  return !!type && type.getElementsByTagNameNS(CALDAV, "calendar").length > 0;
+}
+
+export class CalDavClient {
+  private collections: CalDavCollection[] | null = null;
+  private state: Record<string, CollectionState> = {};
+
+  constructor(
+    private options: CalDavOptions,
+    private transport: DavTransport
+  ) {}
+
+  /**
+   * Finds the calendars available to the account. The configured URL may be
+   * the server root, a principal, a calendar home, or a single calendar.
+   */
+  async discover(): Promise<CalDavCollection[]> {
+    const root = await this.propfind(
+      this.options.url,
+      0,
+      "<D:resourcetype/><D:displayname/><D:current-user-principal/><C:calendar-home-set/><D:sync-token/>"
+    );
+    const self = root[0]?.props ?? null;
+
+    if (isCalendar(self)) {
+      this.collections = [
+        {
+          href: this.options.url,
+          name: propText(self, DAV, "displayname") ?? this.options.url,
+          syncToken: propText(self, DAV, "sync-token"),
+        },
+      ];
+      return this.collections;
+    }
+
+    let home = propHref(self, CALDAV, "calendar-home-set");
+    if (!home) {
+      const principal = propHref(self, DAV, "current-user-principal");
+      if (principal) {
+        const res = await this.propfind(this.resolve(principal), 0, "<C:calendar-home-set/>");
+        home = propHref(res[0]?.props ?? null, CALDAV, "calendar-home-set");
+      }
+    }
+
+    const homeUrl = home ? this.resolve(home) : this.options.url;
+    const children = await this.propfind(
+      homeUrl,
+      1,
+      "<D:resourcetype/><D:displayname/><D:sync-token/>"
+    );
+
+    this.collections = children
+      .filter((c) => isCalendar(c.props))
+      .map((c) => ({
+        href: this.resolve(c.href),
+        name: propText(c.props, DAV, "displayname") ?? decodeURIComponent(c.href),
+        syncToken: propText(c.props, DAV, "sync-token"),
+      }));
+    return this.collections;
+  }
+
+  /**
+   * Returns the raw calendar-data (one VCALENDAR per object) for the window.
+   * The first call per calendar runs a calendar-query; later calls with the
+   * same window only apply the changes reported by sync-collection.
+   */
+  async fetchCalendarData(range: EventRange, only?: string): Promise<string[]> {
+    const collections = this.collections ?? (await this.discover());
+    const targets = only ? collections.filter((c) => c.href === only) : collections;
+    if (only && !targets.length) {
+      throw new Error(`CalDAV calendar not found: ${only}`);
+    }
+
+    const rangeKey = `${formatUTC(range.start)}/${formatUTC(range.end)}`;
+    const data: string[] = [];
+
+    for (const collection of targets) {
+      let state = this.state[collection.href];
+      const synced = state?.rangeKey === rangeKey && state.syncToken
+        ? await this.syncChanges(collection.href, state)
+        : false;
+
+      if (!synced) {
+        state = await this.queryRange(collection.href, range, rangeKey);
+        this.state[collection.href] = state;
+      }
+      data.push(...state.objects.values());
+    }
+
+    return data;
+  }
+
+  private async queryRange(href: string, range: EventRange, rangeKey: string): Promise<CollectionState> {
+    // Read the token first so changes made during the query are not missed
+    const tokenRes = await this.propfind(href, 0, "<D:sync-token/>");
+    const syncToken = propText(tokenRes[0]?.props ?? null, DAV, "sync-token");
+
+    const objects = new Map<string, string>();
+    for (const component of ["VEVENT", "VTODO"]) {
+      const body =
+        `<?xml version="1.0" encoding="utf-8"?>` +
+        `<C:calendar-query xmlns:D="DAV:" xmlns:C="${CALDAV}">` +
+        `<D:prop><D:getetag/><C:calendar-data/></D:prop>` +
+        `<C:filter><C:comp-filter name="VCALENDAR"><C:comp-filter name="${component}">` +
+        `<C:time-range start="${formatUTC(range.start)}" end="${formatUTC(range.end)}"/>` +
+        `</C:comp-filter></C:comp-filter></C:filter>` +
+        `</C:calendar-query>`;
+
+      for (const entry of await this.report(href, 1, body)) {
+        const ics = propText(entry.props, CALDAV, "calendar-data");
+        if (ics) objects.set(this.resolve(entry.href), ics);
+      }
+    }
+
+    return { rangeKey, syncToken, objects };
+  }
+
+  /**
+   * Applies sync-collection changes to the cached objects.
+   * Returns false when the server rejects the token and a full query is needed.
+   */
+  private async syncChanges(href: string, state: CollectionState): Promise<boolean> {
+    const body =
+      `<?xml version="1.0" encoding="utf-8"?>` +
+      `<D:sync-collection xmlns:D="DAV:" xmlns:C="${CALDAV}">` +
+      `<D:sync-token>${escapeXml(state.syncToken ?? "")}</D:sync-token>` +
+      `<D:sync-level>1</D:sync-level>` +
+      `<D:prop><D:getetag/><C:calendar-data/></D:prop>` +
+      `</D:sync-collection>`;
+
+    // An expired or unknown token is refused with 403 (RFC 6578) or, by some
+    // servers, 400/409/410
+    const res = await this.send(href, "REPORT", 0, body, true);
+    if (res.status !== 207) return false;
+
+    const missing: string[] = [];
+    for (const entry of parseMultistatus(res.text)) {
+      const objectHref = this.resolve(entry.href);
+      if (objectHref === href) continue;
+      if (entry.status === 404) {
+        state.objects.delete(objectHref);
+        continue;
+      }
+      const ics = propText(entry.props, CALDAV, "calendar-data");
+      if (ics) state.objects.set(objectHref, ics);
+      else missing.push(objectHref);
+    }
+
+    if (missing.length) {
+      for (const [objectHref, ics] of await this.multiget(href, missing)) {
+        state.objects.set(objectHref, ics);
+      }
+    }
+
+    const doc = new DOMParser().parseFromString(res.text, "application/xml");
+    state.syncToken = doc.getElementsByTagNameNS(DAV, "sync-token")[0]?.textContent?.trim() || state.syncToken;
+    return true;
+  }
+
+  private async multiget(href: string, objects: string[]): Promise<Map<string, string>> {
+    const body =
+      `<?xml version="1.0" encoding="utf-8"?>` +
+      `<C:calendar-multiget xmlns:D="DAV:" xmlns:C="${CALDAV}">` +
+      `<D:prop><D:getetag/><C:calendar-data/></D:prop>` +
+      objects.map((o) => `<D:href>${escapeXml(new URL(o).pathname)}</D:href>`).join("") +
+      `</C:calendar-multiget>`;
+
+    const result = new Map<string, string>();
+    for (const entry of await this.report(href, 1, body)) {
+      const ics = propText(entry.props, CALDAV, "calendar-data");
+      if (ics) result.set(this.resolve(entry.href), ics);
+    }
+    return result;
+  }
+
+  private async propfind(url: string, depth: 0 | 1, props: string): Promise<MultistatusEntry[]> {
+    const body =
+      `<?xml version="1.0" encoding="utf-8"?>` +
+      `<D:propfind xmlns:D="DAV:" xmlns:C="${CALDAV}"><D:prop>${props}</D:prop></D:propfind>`;
+    const res = await this.send(url, "PROPFIND", depth, body);
+    if (res.status !== 207) throw new HttpError(res.status, `CalDAV PROPFIND failed (HTTP ${res.status})`);
+    return parseMultistatus(res.text);
+  }
+
+  private async report(url: string, depth: 0 | 1, body: string): Promise<MultistatusEntry[]> {
+    const res = await this.send(url, "REPORT", depth, body);
+    if (res.status !== 207) throw new HttpError(res.status, `CalDAV REPORT failed (HTTP ${res.status})`);
+    return parseMultistatus(res.text);
+  }
+
+  private async send(
+    url: string,
+    method: string,
+    depth: 0 | 1,
+    body: string,
+    isSync = false
+  ): Promise<DavResponse> {
+    const res = await this.transport({
+      url,
+      method,
+      headers: {
+        Authorization: basicAuthHeader(this.options.username, this.options.password),
+        "Content-Type": "application/xml; charset=utf-8",
+        Depth: String(depth),
+      },
+      body,
+    });
+    const tokenRejected = isSync && res.status === 403 && /valid-sync-token/.test(res.text);
+    if ((res.status === 401 || res.status === 403) && !tokenRejected) {
+      throw new HttpError(res.status, `CalDAV authentication failed (HTTP ${res.status})`);
+    }
+    return res;
+  }
+
+  private resolve(href: string): string {
+    return new URL(href, this.options.url).toString();
+  }
+}
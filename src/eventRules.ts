@@ -0,0 +1,88 @@
+import type { CalendarEvent, EventRule } from "./types";
+
+/**
+ * Ordered styling rules. Every matching rule adds its label; the first
+ * matching rule that sets a color or an icon decides it.
+ */
+
+export const EVENT_RULE_FIELDS: Record<EventRule["field"], string> = {
+  summary: "Title",
+  location: "Location",
+  category: "Category",
+  organizer: "Organizer",
+};
+
+/**
+ * Returns why a rule can't be used, or null when it is valid.
+ */
+export function validateEventRule(rule: EventRule): string | null {
+  if (!rule.pattern.trim()) return "Enter a pattern";
+  try {
+    new RegExp(rule.pattern, "i");
+    return null;
+  } catch (err: any) {
+    return `Invalid regular expression: ${err?.message || err}`;
+  }
+}
+
+/**
+ * Text of an event that a rule field is matched against.
+ */
+function fieldValues(e: CalendarEvent, field: EventRule["field"]): string[] {
+  switch (field) {
+    case "summary": return [e.subject ?? ""];
+    case "location": return [e.location ?? ""];
+    case "category": return e.categories ?? [];
+    case "organizer": return [e.organizer?.name ?? "", e.organizer?.email ?? ""];
+  }
+}
+
+/**
+ * Sets `labels`, `icon` and `accentColor` on events matched by the rules.
+ */
+export function applyEventRules(events: CalendarEvent[], rules: EventRule[] | undefined): CalendarEvent[] {
+  const active = (rules ?? [])
+    .filter((r) => !validateEventRule(r) && (r.color || r.icon || r.label?.trim()))
+    .map((r) => ({ rule: r, re: new RegExp(r.pattern, "i") }));
+  if (!active.length) return events;
+
+  return events.map((e) => {
+    let accentColor: string | undefined;
+    let icon: string | undefined;
+    const labels: string[] = [];
+
+    for (const { rule, re } of active) {
+      if (!fieldValues(e, rule.field).some((v) => v && re.test(v))) continue;
+      accentColor ??= rule.color || undefined;
+      icon ??= rule.icon?.trim() || undefined;
+      const label = rule.label?.trim();
+      if (label && !labels.includes(label)) labels.push(label);
+    }
+
+    if (!accentColor && !icon && !labels.length) return e;
+    return { ...e, accentColor, icon, labels: labels.length ? labels : undefined };
+  });
+}
+
+/**
+ * Turns a label into an Obsidian tag, e.g. "Customer call" → "#customer-call"
+ * and "1:1" → "#1-1". Obsidian ignores all-digit tags, so those get a prefix.
+ */
+export function labelToTag(label: string): string {
+  const tag = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_/-]+/gu, "-")
+    .replace(/-*\/-*/g, "/")
+    .replace(/-{2,}/g, "-")
+    .replace(/^[-/]+|[-/]+$/g, "");
+  if (!tag) return "";
+  return /^\d+$/.test(tag) ? `#label-${tag}` : `#${tag}`;
+}
+
+/**
+ * The tags for an event's labels, separated by spaces ("" without labels).
+ */
+export function labelTags(e: CalendarEvent): string {
+  return (e.labels ?? []).map(labelToTag).filter(Boolean).join(" ");
+}
@@ -0,0 +1,83 @@
+import { normalizePath } from "obsidian";
+import type { DataAdapter } from "obsidian";
+import type { CalendarEvent, CalendarSource } from "./types";
+
+/**
+ * On-disk cache of the last good payload of each calendar source.
+ * Lets refreshes use conditional requests and keeps the view populated
+ * while the network is down. One JSON file per source in the plugin folder.
+ */
+
+export interface CachedFeed {
+  // Identifies what the payload was loaded from; a changed URL invalidates it
+  key: string;
+  etag?: string;
+  lastModified?: string;
+  // ISO time of the last successful contact with the server
+  fetchedAt: string;
+  ics: string;
+  // Parsed events for the window in rangeKey, without `raw`
+  rangeKey: string;
+  events: CalendarEvent[];
+  unresolvedZones: Record<string, string[]>;
+}
+
+/**
+ * Cache key of a source: the fields that decide what gets loaded.
+ */
+export function feedCacheKey(src: CalendarSource): string {
+  return [src.type ?? "url", src.url?.trim(), src.calendarHref ?? ""].join("\n");
+}
+
+export class FeedCache {
+  private entries = new Map<string, CachedFeed | null>();
+
+  constructor(private adapter: DataAdapter, private dir: string) {}
+
+  /**
+   * Returns the cached payload of a source, or null when there is none
+   * or it belongs to a different URL.
+   */
+  async read(src: CalendarSource): Promise<CachedFeed | null> {
+    if (!this.entries.has(src.id)) {
+      let entry: CachedFeed | null = null;
+      try {
+        const path = this.path(src.id);
+        if (await this.adapter.exists(path)) {
+          entry = JSON.parse(await this.adapter.read(path));
+        }
+      } catch (err) {
+        console.warn(`[OCE] Ignoring unreadable cache for "${src.name}":`, err);
+      }
+      this.entries.set(src.id, entry);
+    }
+
+    const entry = this.entries.get(src.id) ?? null;
+    return entry?.key === feedCacheKey(src) ? entry : null;
+  }
+
+  async write(src: CalendarSource, entry: CachedFeed): Promise<void> {
+    const stored: CachedFeed = {
+      ...entry,
+      events: entry.events.map(({ raw, ...e }) => e),
+    };
+    this.entries.set(src.id, stored);
+
+    try {
+      if (!(await this.adapter.exists(this.dir))) await this.adapter.mkdir(this.dir);
+      await this.adapter.write(this.path(src.id), JSON.stringify(stored));
+    } catch (err) {
+      console.warn(`[OCE] Could not write cache for "${src.name}":`, err);
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+    const path = this.path(id);
+    if (await this.adapter.exists(path)) await this.adapter.remove(path);
+  }
+
+  private path(id: string): string {
+    return normalizePath(`${this.dir}/${id.replace(/[^\w-]/g, "_")}.json`);
+  }
+}
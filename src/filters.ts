@@ -0,0 +1,97 @@
+import { eventTime } from "./icsParser";
+import type { CalendarEvent, FilterRule } from "./types";
+
+/**
+ * Per-source include/exclude rules. An event is hidden when it matches any
+ * exclude rule, or when the source has include rules and it matches none.
+ */
+
+export const FILTER_FIELDS: Record<FilterRule["field"], string> = {
+  summary: "Title",
+  location: "Location",
+  transparency: "Free/busy",
+  status: "Status",
+  duration: "Duration (min)",
+};
+
+/**
+ * Reads a duration condition like "<15" or ">= 480" (minutes).
+ */
+function parseDurationCondition(pattern: string): ((minutes: number) => boolean) | null {
+  const m = pattern.trim().match(/^([<>]=?|=)\s*(\d+(?:\.\d+)?)$/);
+  if (!m) return null;
+  const limit = parseFloat(m[2]);
+  switch (m[1]) {
+    case "<": return (v) => v < limit;
+    case "<=": return (v) => v <= limit;
+    case ">": return (v) => v > limit;
+    case ">=": return (v) => v >= limit;
+    default: return (v) => v === limit;
+  }
+}
+
+/**
+ * Returns why a rule can't be used, or null when it is valid.
+ */
+export function validateRule(rule: FilterRule): string | null {
+  if (!rule.pattern.trim()) return "Enter a pattern";
+  if (rule.field === "duration") {
+    return parseDurationCondition(rule.pattern) ? null : 'Use a comparison like "<15" or ">=480"';
+  }
+  try {
+    new RegExp(rule.pattern, "i");
+    return null;
+  } catch (err: any) {
+    return `Invalid regular expression: ${err?.message || err}`;
+  }
+}
+
+/**
+ * Builds a predicate for a valid rule.
+ */
+function compileRule(rule: FilterRule): (e: CalendarEvent) => boolean {
+  if (rule.field === "duration") {
+    const test = parseDurationCondition(rule.pattern)!;
+    return (e) => {
+      const ms = eventTime(e.end || e.start, e.allDay) - eventTime(e.start, e.allDay);
+      return test(ms / 60000);
+    };
+  }
+
+  const re = new RegExp(rule.pattern, "i");
+  return (e) => {
+    switch (rule.field) {
+      case "summary": return re.test(e.subject ?? "");
+      case "location": return re.test(e.location ?? "");
+      // Events without TRANSP are busy (RFC 5545 default)
+      case "transparency": return re.test(e.transparency ?? "OPAQUE");
+      case "status": return re.test(e.status ?? "");
+    }
+    return false;
+  };
+}
+
+/**
+ * Applies a source's rules to its events. Empty or invalid rules are
+ * ignored, so a half-typed "Only show" rule doesn't hide everything.
+ */
+export function applyFilters(events: CalendarEvent[], rules: FilterRule[] | undefined): CalendarEvent[] {
+  const active = (rules ?? []).filter((r) => !validateRule(r));
+  if (!active.length) return events;
+
+  const includes = active.filter((r) => r.action === "include").map(compileRule);
+  const excludes = active.filter((r) => r.action === "exclude").map(compileRule);
+
+  return events.filter(
+    (e) => (!includes.length || includes.some((m) => m(e))) && !excludes.some((m) => m(e))
+  );
+}
+
+/**
+ * For each rule, how many of the events would come back if that rule were
+ * removed — i.e. how many events the rule itself hides.
+ */
+export function countRemovedByRule(events: CalendarEvent[], rules: FilterRule[]): number[] {
+  const kept = applyFilters(events, rules).length;
+  return rules.map((_, i) => applyFilters(events, rules.filter((__, j) => j !== i)).length - kept);
+}
@@ -1,239 +1,587 @@
-import { requestUrl } from "obsidian";
-import { rrulestr } from "rrule";
-import type { CalendarEvent, ObsidianCalendarSettings } from "./types";
-import { normalizeTZID } from "./utils/tzidMap"; 
+import { App, normalizePath, requestUrl } from "obsidian";
+import { CalDavClient } from "./caldav";
+import type { DavTransport } from "./caldav";
+import type { CachedFeed, FeedCache } from "./feedCache";
+import { feedCacheKey } from "./feedCache";
+import { applyEventRules } from "./eventRules";
+import { applyFilters } from "./filters";
+import { eventTime, parseICS } from "./icsParser";
+import type { ParsedFeed } from "./icsParser";
+import type {
+  CalendarEvent,
+  CalendarSource,
+  EventRange,
+  EventSourceRef,
+  FeedDiagnostics,
+  ObsidianCalendarSettings,
+  SourceStatus,
+} from "./types";
+import { feedRequestHeaders, headerValue, HttpError, TimeoutError, toHttpUrl, withTimeout } from "./utils/http";
 
 /**
- * Parses property lines like DTSTART;TZID=America/New_York:20251105T120000
+ * Whether a source has somewhere to load from (a URL or a vault path).
  */
-function readProp(line: string): { value: string; tz?: string } {
-  const [left, right] = line.split(":");
-  const value = (right ?? "").trim();
-  const m = left.match(/TZID=([^;]+)/i);
-  const tz = normalizeTZID(m ? m[1].trim() : undefined);
-  return { value, tz };
+export function isSourceConfigured(src: CalendarSource): boolean {
+  if (src.type === "vault") return !!src.path?.trim();
+  if (src.type === "caldav") return !!src.url?.trim() && !!src.username?.trim();
+  return !!src.url?.trim();
 }
 
+// Background refresh backoff for failing sources: 1 minute, doubling up to an hour
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// Focus/online refreshes skip sources loaded less than this long ago
+const MIN_REFRESH_GAP_MS = 60 * 1000;
+
+export type RefreshTrigger = "timer" | "focus" | "online";
+
+export interface FetchOptions {
+  // Source ids to load again; the others reuse what was last loaded, without
+  // a request, as long as it covers the window
+  reload?: string[];
+  // Window to load; without it, daysBefore/daysAhead around today
+  start?: Date;
+  end?: Date;
+}
+
+interface RefreshState {
+  lastAttempt: number;
+  nextDue: number;
+  failures: number;
+}
+
+function rangeKey(range: EventRange): string {
+  return `${range.start.toISOString()}/${range.end.toISOString()}`;
+}
+
+function rangeFromKey(key: string): EventRange {
+  const [start, end] = key.split("/");
+  return { start: new Date(start), end: new Date(end) };
+}
+
+// Other windows parsed from a source's last payload, kept per source
+const MAX_EXTRA_RANGES = 20;
+
 /**
- * Converts a wall time string with optional TZID to a UTC ISO string.
+ * Sends CalDAV requests through Obsidian, which is not subject to CORS.
  */
-function zonedWallTimeToUTCISO(dateStr: string, tz?: string): string | null {
-  if (!dateStr) return null;
+export const requestUrlTransport: DavTransport = async (req) => {
+  const res = await requestUrl({ ...req, throw: false });
+  return { status: res.status, text: res.text };
+};
 
-  const m = dateStr.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?$/);
-  if (!m) return null;
-  const [, y, mo, d, hh = "00", mm = "00", ss = "00"] = m;
-  const year = +y, month = +mo, day = +d, hour = +hh, minute = +mm, second = +ss;
+// Longest a single source may take to load before it counts as timed out
+const FETCH_TIMEOUT_MS = 30000;
 
-  // All-day events (VALUE=DATE)
-  if (!dateStr.includes("T")) {
-    return new Date(Date.UTC(year, month - 1, day, 0, 0, 0)).toISOString();
+/**
+ * The source returned something that isn't a usable iCalendar feed.
+ */
+class FeedParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedParseError";
   }
+}
 
-  // If already UTC (Z suffix handled elsewhere), this won't be used
-  if (!tz) {
-    const local = new Date(year, month - 1, day, hour, minute, second);
-    return new Date(local.getTime() - local.getTimezoneOffset() * 60000).toISOString();
+/**
+ * Parses a source's text, rejecting payloads that aren't iCalendar at all
+ * (e.g. an HTML login or error page served with status 200).
+ */
+async function parseSource(src: CalendarSource, text: string, range: EventRange): Promise<ParsedFeed> {
+  // CalDAV returns one VCALENDAR per object, so an empty calendar is empty text
+  if (src.type !== "caldav" && !/BEGIN:VCALENDAR/i.test(text)) {
+    throw new FeedParseError(`"${src.name}" did not return an iCalendar feed`);
   }
-
-  // Compute timezone offset using Intl.DateTimeFormat
   try {
-    const dtf = new Intl.DateTimeFormat("en-US", {
-      timeZone: tz,
-      year: "numeric", month: "2-digit", day: "2-digit",
-      hour: "2-digit", minute: "2-digit", second: "2-digit",
-      hour12: false,
-    });
-    const parts = dtf.formatToParts(new Date(Date.UTC(year, month - 1, day, hour, minute, second)));
-    const obj: any = {};
-    for (const p of parts) obj[p.type] = p.value;
-    const tzWallUTC = Date.UTC(+obj.year, +obj.month - 1, +obj.day, +obj.hour, +obj.minute, +obj.second);
-    const naiveUTC = Date.UTC(year, month - 1, day, hour, minute, second);
-    const offsetMs = tzWallUTC - naiveUTC;
-    const intendedUTC = naiveUTC - offsetMs;
-    return new Date(intendedUTC).toISOString();
-  } catch {
-    return new Date(Date.UTC(year, month - 1, day, hour, minute, second)).toISOString();
+    return await parseICS(text, range);
+  } catch (err: any) {
+    throw new FeedParseError(`Could not parse "${src.name}": ${err?.message || err}`);
   }
 }
 
+function failureStatus(err: unknown): SourceStatus {
+  if (err instanceof TimeoutError) return "timeout";
+  if (err instanceof HttpError) return "http";
+  if (err instanceof FeedParseError) return "parse";
+  return "error";
+}
+
 /**
- * Converts a date/time value and optional TZID to an ISO UTC string.
+ * A source's last load: its events for the loaded window and the text they
+ * were parsed from.
  */
-function toISO(val: string, tz?: string): string | null {
-  if (!val) return null;
-  try {
-    if (/^\d{8}$/.test(val)) {
-      // VALUE=DATE
-      const y = val.slice(0, 4);
-      const m = val.slice(4, 6);
-      const d = val.slice(6, 8);
-      return new Date(`${y}-${m}-${d}T00:00:00Z`).toISOString();
-    }
-    if (val.endsWith("Z")) return new Date(val).toISOString();
-    return zonedWallTimeToUTCISO(val, tz);
-  } catch {
-    return null;
-  }
+interface LoadedSource {
+  rangeKey: string;
+  events: CalendarEvent[];
+  text: string;
+  // Window the text covers; CalDAV only returns objects inside the queried one
+  window: EventRange;
+  // Events for other windows, by range key: parsed from `text`, or loaded
+  // for a CalDAV window outside the one queried
+  ranges: Map<string, CalendarEvent[]>;
 }
 
 /**
- * Full-featured Outlook-compatible ICS parser.
- * Handles recurrence rules, cancellations, time zones, and folded lines.
+ * Raw text of a source, with the validators needed for the next conditional request.
  */
-function parseICS(icsText: string): CalendarEvent[] {
-  const events: CalendarEvent[] = [];
-  const unfolded = icsText.replace(/\r?\n[ \t]/g, "");
-  const blocks = unfolded.split("BEGIN:VEVENT").slice(1);
-
-  const recurringMasters: Record<string, any> = {};
-  const cancelledInstances: Record<string, string[]> = {};
-
-  for (const block of blocks) {
-    const endBlock = block.split("END:VEVENT")[0];
-    const lines = endBlock.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
-
-    let uid = "";
-    let summary = "(no title)";
-    let start = "", startTz = "";
-    let end = "", endTz = "";
-    let recurrenceId = "", recurrenceTz = "";
-    let rrule = "";
-    let location = "";
-    let canceled = false;
-
-    for (const line of lines) {
-      if (line.startsWith("UID:")) uid = line.substring(4).trim();
-      else if (line.startsWith("SUMMARY")) summary = line.split(":").slice(1).join(":").trim();
-      else if (line.startsWith("LOCATION")) location = line.split(":").slice(1).join(":").trim();
-      else if (line.startsWith("STATUS:CANCELLED")) canceled = true;
-      else if (line.startsWith("DTSTART")) {
-        const { value, tz } = readProp(line);
-        start = value; startTz = tz || "";
-      }
-      else if (line.startsWith("DTEND")) {
-        const { value, tz } = readProp(line);
-        end = value; endTz = tz || "";
+interface SourcePayload {
+  text: string;
+  etag?: string;
+  lastModified?: string;
+  notModified?: boolean;
+}
+
+/**
+ * Client for fetching and parsing multiple iCal feeds.
+ */
+export class CalendarClient {
+  // Diagnostics from the most recent fetch, keyed by calendar source id
+  diagnostics: Record<string, FeedDiagnostics> = {};
+
+  // CalDAV clients keep discovery results and sync tokens between fetches
+  private caldavClients: Record<string, { key: string; client: CalDavClient }> = {};
+
+  // Each source's last load, so a refresh can reload only some sources and
+  // other windows can be read without a request
+  private loaded: Record<string, LoadedSource> = {};
+
+  // Background refresh bookkeeping per source
+  private schedule: Record<string, RefreshState> = {};
+
+  constructor(
+    private settings: ObsidianCalendarSettings,
+    private app: App,
+    readonly cache: FeedCache,
+    private davTransport: DavTransport = requestUrlTransport
+  ) {}
+
+  /**
+   * Loads events from every enabled source. With `reload`, only those sources
+   * are loaded again; the others reuse their last load, re-parsed when the
+   * window differs, and are only loaded when it doesn't cover the window.
+   * Re-parsing doesn't update `diagnostics`.
+   */
+  async fetchEvents(options: FetchOptions = {}): Promise<CalendarEvent[]> {
+    const sources = (this.settings.calendars || []).filter((c) => c.enabled && isSourceConfigured(c));
+    if (sources.length === 0) {
+      throw new Error("No enabled calendars configured.");
+    }
+
+    const range = this.getRange(options);
+
+    // Sources settle independently; a failing one only loses its own events
+    const key = rangeKey(range);
+    const otherWindow = new Set<string>();
+    const results = await Promise.allSettled(
+      sources.map(async (src) => {
+        const previous = this.loaded[src.id];
+        if (options.reload && !options.reload.includes(src.id)) {
+          if (previous?.rangeKey === key) return previous.events;
+          if (this.covers(src, range)) {
+            otherWindow.add(src.id);
+            return this.readRange(src, range);
+          }
+          // Nothing loaded for this window yet; a failing source still waits
+          // for its backoff instead of being retried by every caller
+          if (this.isBackingOff(src)) {
+            throw new Error(this.diagnostics[src.id]?.error || `"${src.name}" is unavailable`);
+          }
+          // A CalDAV window outside the last query is loaded on the side,
+          // keeping the load of the view's window
+          if (previous) {
+            otherWindow.add(src.id);
+            const { events } = await this.loadEvents(src, range);
+            this.remember(previous, key, events);
+            return events;
+          }
+        }
+        try {
+          const load = await this.loadEvents(src, range);
+          this.loaded[src.id] = { ...load, rangeKey: key, ranges: new Map() };
+          return load.events;
+        } catch (err) {
+          delete this.loaded[src.id];
+          throw err;
+        }
+      })
+    );
+
+    const allEvents: CalendarEvent[] = [];
+    const failures: string[] = [];
+    results.forEach((res, i) => {
+      const src = sources[i];
+      if (res.status === "rejected") {
+        console.error(`[OCE] Could not load "${src.name}":`, res.reason);
+        failures.push(`${src.name}: ${res.reason?.message || res.reason}`);
+        return;
       }
-      else if (line.startsWith("RRULE:")) rrule = line.substring(6).trim();
-      else if (line.startsWith("RECURRENCE-ID")) {
-        const { value, tz } = readProp(line);
-        recurrenceId = value; recurrenceTz = tz || "";
+      for (const e of applyFilters(res.value, src.filters)) {
+        allEvents.push({
+          ...e,
+          calendarId: src.id,
+          calendarName: src.name,
+          color: src.color || "#4A90E2",
+        });
       }
+    });
+
+    if (failures.length === sources.length) {
+      throw new Error(`Unable to load iCal feeds: ${failures.join("; ")}`);
     }
 
-    const startISO = toISO(start, startTz || undefined);
-    const endISO = toISO(end, endTz || undefined);
-
-    if (!uid || !startISO) continue;
-
-    if (rrule) {
-      recurringMasters[uid] = { uid, summary, location, startISO, endISO, rrule };
-    } else if (recurrenceId && canceled) {
-      cancelledInstances[uid] = cancelledInstances[uid] || [];
-      const ridISO = toISO(recurrenceId, recurrenceTz || undefined);
-      if (ridISO) cancelledInstances[uid].push(ridISO);
-    } else if (!canceled) {
-      events.push({
-        id: uid + startISO,
-        subject: summary,
-        start: startISO,
-        end: endISO || startISO,
-        location,
-        raw: block,
-      });
+    // --- Date Range Filtering ---
+    const startBoundaryUTC = range.start.getTime();
+    const endBoundaryUTC = range.end.getTime();
+
+    const filtered = allEvents.filter((ev) => {
+      const start = eventTime(ev.start, ev.allDay);
+      const end = eventTime(ev.end || ev.start, ev.allDay);
+      return (
+        (start >= startBoundaryUTC && start <= endBoundaryUTC) ||
+        (end >= startBoundaryUTC && end <= endBoundaryUTC) ||
+        (start <= startBoundaryUTC && end >= endBoundaryUTC)
+      );
+    });
+
+    for (const src of sources) {
+      const diag = otherWindow.has(src.id) ? null : this.diagnostics[src.id];
+      if (diag) diag.eventCount = filtered.filter((e) => e.calendarId === src.id).length;
     }
+
+    const merged = this.settings.mergeDuplicates ? this.mergeDuplicates(filtered) : filtered;
+    const styled = applyEventRules(merged, this.settings.eventRules);
+
+    console.log("Filtered events:", styled.length);
+    return styled.sort((a, b) => a.start.localeCompare(b.start));
   }
 
-  // Expand recurrence rules
-  for (const uid in recurringMasters) {
-    const m = recurringMasters[uid];
-    const rule = rrulestr(`DTSTART:${m.startISO.replace(/[-:]/g, "").split(".")[0]}Z\nRRULE:${m.rrule}`);
-    const between = rule.between(new Date("2025-01-01"), new Date("2026-01-01"), true);
-
-    for (const date of between) {
-      const startDate = date.toISOString();
-      const duration = new Date(m.endISO).getTime() - new Date(m.startISO).getTime();
-      const endDate = new Date(new Date(startDate).getTime() + duration).toISOString();
-      if (cancelledInstances[uid]?.includes(startDate)) continue;
-
-      events.push({
-        id: uid + startDate,
-        subject: m.summary,
-        start: startDate,
-        end: endDate,
-        location: m.location,
-        raw: m,
-      });
+  /**
+   * Collapses copies of the same event (same UID and start) from different
+   * calendars into one. The owner calendar's copy is kept, or else the copy
+   * from the calendar listed first; every calendar is recorded in `sources`.
+   */
+  private mergeDuplicates(events: CalendarEvent[]): CalendarEvent[] {
+    const order = (this.settings.calendars || []).map((c) => c.id);
+    const rank = (e: CalendarEvent) =>
+      e.calendarId === this.settings.mergeOwnerId ? -1 : order.indexOf(e.calendarId ?? "");
+
+    const groups = new Map<string, CalendarEvent[]>();
+    const result: CalendarEvent[] = [];
+    for (const e of events) {
+      if (!e.uid) {
+        result.push(e);
+        continue;
+      }
+      const key = `${e.uid}\n${e.start}`;
+      const group = groups.get(key);
+      if (group) group.push(e);
+      else groups.set(key, [e]);
     }
+
+    for (const group of groups.values()) {
+      group.sort((a, b) => rank(a) - rank(b));
+      const sources: EventSourceRef[] = [];
+      for (const e of group) {
+        if (!e.calendarId || sources.some((s) => s.calendarId === e.calendarId)) continue;
+        sources.push({ calendarId: e.calendarId, calendarName: e.calendarName ?? "", color: e.color ?? "" });
+      }
+      result.push(sources.length > 1 ? { ...group[0], sources } : group[0]);
+    }
+
+    return result;
   }
 
-  return events.sort((a, b) => a.start.localeCompare(b.start));
-}
+  /**
+   * Events of a source for a window other than its last load, parsed from
+   * the text it was loaded from unless already known. Never makes a request.
+   */
+  private async readRange(src: CalendarSource, range: EventRange): Promise<CalendarEvent[]> {
+    const key = rangeKey(range);
+    const previous = this.loaded[src.id];
+    const known = previous.ranges.get(key);
+    if (known) return known;
 
-/**
- * Client for fetching and parsing multiple iCal feeds.
- */
-export class CalendarClient {
-  constructor(private settings: ObsidianCalendarSettings) {}
+    const { events } = await parseSource(src, previous.text, range);
+    this.remember(previous, key, events);
+    return events;
+  }
 
-  async fetchEvents(): Promise<CalendarEvent[]> {
-    const sources = (this.settings.calendars || []).filter((c) => c.enabled && c.url.trim());
-    if (sources.length === 0) {
-      throw new Error("No enabled calendars configured.");
+  private remember(loaded: LoadedSource, key: string, events: CalendarEvent[]) {
+    if (loaded.ranges.size >= MAX_EXTRA_RANGES) {
+      loaded.ranges.delete(loaded.ranges.keys().next().value as string);
     }
+    loaded.ranges.set(key, events);
+  }
+
+  /**
+   * Whether a source's last load holds every event of the window: feeds and
+   * vault files hold everything, a CalDAV query only its own window (or one
+   * loaded on the side).
+   */
+  private covers(src: CalendarSource, range: EventRange): boolean {
+    const loaded = this.loaded[src.id];
+    if (!loaded) return false;
+    if (src.type !== "caldav" || loaded.ranges.has(rangeKey(range))) return true;
+    return loaded.window.start <= range.start && loaded.window.end >= range.end;
+  }
+
+  private isBackingOff(src: CalendarSource): boolean {
+    const state = this.schedule[src.id];
+    return !!state && state.failures > 0 && Date.now() < state.nextDue;
+  }
+
+  /**
+   * Whether every enabled source has been loaded for the whole window, so
+   * an event missing from `fetchEvents` is really gone and not just unread.
+   */
+  coversRange(options: FetchOptions = {}): boolean {
+    const range = this.getRange(options);
+    return (this.settings.calendars || [])
+      .filter((c) => c.enabled && isSourceConfigured(c))
+      .every((src) => this.covers(src, range));
+  }
+
+  /**
+   * Events of a source as last loaded, before its filter rules are applied.
+   */
+  getUnfilteredEvents(id: string): CalendarEvent[] {
+    return this.loaded[id]?.events ?? [];
+  }
+
+  /**
+   * Sources whose last load failed, whether or not cached events are shown.
+   */
+  getFailedSources(): CalendarSource[] {
+    return (this.settings.calendars || []).filter(
+      (c) => c.enabled && this.diagnostics[c.id] && this.diagnostics[c.id].status !== "ok"
+    );
+  }
+
+  /**
+   * Loads and parses one source and records its result in `diagnostics`.
+   * Remote sources are cached on disk; when loading fails, the cached copy
+   * is used and the source is marked stale.
+   */
+  private async loadEvents(
+    src: CalendarSource,
+    range: EventRange
+  ): Promise<Omit<LoadedSource, "rangeKey" | "ranges">> {
+    const key = rangeKey(range);
+    const cached = src.type === "vault" ? null : await this.cache.read(src);
 
     try {
-      const allResults = await Promise.all(
-        sources.map(async (src) => {
-          const response = await requestUrl({ url: src.url });
-          const events = parseICS(response.text);
-          return events.map((e) => ({
-            ...e,
-            calendarId: src.id,
-            calendarName: src.name,
-            color: src.color || "#4A90E2",
-          }));
-        })
+      const payload = await withTimeout(
+        this.loadSource(src, range, cached),
+        FETCH_TIMEOUT_MS,
+        `Loading "${src.name}" timed out after ${FETCH_TIMEOUT_MS / 1000} seconds`
       );
 
-      const allEvents = allResults.flat();
+      // Unchanged feed and window: reuse the parsed events
+      const reuse = payload.notModified && cached?.rangeKey === key;
+      const { events, unresolvedZones } = reuse ? cached! : await parseSource(src, payload.text, range);
+
+      const fetchedAt = new Date().toISOString();
+      this.recordAttempt(src, true);
+      this.diagnostics[src.id] = {
+        status: "ok",
+        eventCount: events.length,
+        lastSuccess: fetchedAt,
+        unresolvedZones,
+      };
+      if (Object.keys(unresolvedZones).length) {
+        console.warn(`[OCE] Unresolved time zones in "${src.name}":`, unresolvedZones);
+      }
+
+      // An unchanged feed and window leave the file as it is; only the time
+      // of the last contact moves on
+      if (reuse) cached!.fetchedAt = fetchedAt;
+      else if (src.type !== "vault") {
+        await this.cache.write(src, {
+          key: feedCacheKey(src),
+          etag: payload.etag,
+          lastModified: payload.lastModified,
+          fetchedAt,
+          ics: payload.text,
+          rangeKey: key,
+          events,
+          unresolvedZones,
+        });
+      }
+
+      return { events, text: payload.text, window: range };
+    } catch (err: any) {
+      this.recordAttempt(src, false);
+      const failure = {
+        status: failureStatus(err),
+        error: err?.message || String(err),
+        lastSuccess: cached?.fetchedAt ?? this.diagnostics[src.id]?.lastSuccess,
+      };
+
+      if (!cached) {
+        this.diagnostics[src.id] = { ...failure, eventCount: 0, unresolvedZones: {} };
+        throw err;
+      }
+
+      console.warn(`[OCE] "${src.name}" unavailable, showing cached events from ${cached.fetchedAt}:`, err);
+      const parsed = cached.rangeKey === key ? cached : await parseICS(cached.ics, range);
+      this.diagnostics[src.id] = {
+        ...failure,
+        eventCount: parsed.events.length,
+        unresolvedZones: parsed.unresolvedZones,
+        staleSince: cached.fetchedAt,
+      };
+      return { events: parsed.events, text: cached.ics, window: rangeFromKey(cached.rangeKey) };
+    }
+  }
 
-      // --- Date Range Filtering ---
-      const now = new Date();
-      const startLocal = new Date(now);
+  /**
+   * Sources that should be reloaded by a background refresh.
+   * "timer" picks sources whose interval (or backoff) has elapsed. "focus"
+   * also picks healthy sources not tried in the last minute. "online" picks
+   * failing sources regardless of their backoff, since the network is back.
+   * Sources with auto-refresh off and vault files (watched instead) are skipped.
+   */
+  getDueSources(trigger: RefreshTrigger, now = Date.now()): string[] {
+    return (this.settings.calendars || [])
+      .filter((src) => {
+        if (!src.enabled || src.type === "vault" || !isSourceConfigured(src)) return false;
+        if (this.refreshIntervalMs(src) <= 0) return false;
+
+        const state = this.schedule[src.id];
+        if (!state) return true;
+        if (now >= state.nextDue) return true;
+        if (trigger === "online") return state.failures > 0 || now - state.lastAttempt >= MIN_REFRESH_GAP_MS;
+        if (trigger === "focus") return state.failures === 0 && now - state.lastAttempt >= MIN_REFRESH_GAP_MS;
+        return false;
+      })
+      .map((src) => src.id);
+  }
+
+  private refreshIntervalMs(src: CalendarSource): number {
+    const minutes = src.refreshInterval ?? this.settings.refreshInterval ?? 0;
+    return Math.max(minutes, 0) * 60 * 1000;
+  }
+
+  /**
+   * Schedules the next background load of a source. Failing sources back off
+   * exponentially (with jitter, so sources don't retry in lockstep), capped
+   * at the larger of their interval and an hour.
+   */
+  private recordAttempt(src: CalendarSource, ok: boolean) {
+    const now = Date.now();
+    const interval = this.refreshIntervalMs(src);
+    const failures = ok ? 0 : (this.schedule[src.id]?.failures ?? 0) + 1;
+
+    let delay = interval;
+    if (!ok) {
+      const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), Math.max(interval, BACKOFF_MAX_MS));
+      delay = backoff / 2 + Math.random() * (backoff / 2);
+    }
+
+    this.schedule[src.id] = { lastAttempt: now, nextDue: now + delay, failures };
+  }
+
+  /**
+   * Reads a source's raw ICS text from the network or the vault.
+   * Feeds are requested conditionally against the cached ETag/Last-Modified;
+   * a 304 returns the cached text.
+   */
+  private async loadSource(
+    src: CalendarSource,
+    range: EventRange,
+    cached: CachedFeed | null
+  ): Promise<SourcePayload> {
+    if (src.type === "caldav") {
+      const objects = await this.getCalDavClient(src).fetchCalendarData(range, src.calendarHref || undefined);
+      return { text: objects.join("\r\n") };
+    }
+
+    if (src.type === "vault") {
+      const path = normalizePath(src.path ?? "");
+      if (!(await this.app.vault.adapter.exists(path))) {
+        throw new Error(`Calendar file not found in vault: ${path}`);
+      }
+      return { text: await this.app.vault.adapter.read(path) };
+    }
+
+    const headers = feedRequestHeaders(src);
+    if (cached?.etag) headers["If-None-Match"] = cached.etag;
+    if (cached?.lastModified) headers["If-Modified-Since"] = cached.lastModified;
+
+    const response = await requestUrl({
+      url: toHttpUrl(src.url),
+      headers,
+      throw: false,
+    });
+    if (response.status === 304 && cached) {
+      return { text: cached.ics, etag: cached.etag, lastModified: cached.lastModified, notModified: true };
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new HttpError(
+        response.status,
+        `Access to "${src.name}" was denied (HTTP ${response.status}). Check the feed's credentials in settings.`
+      );
+    }
+    if (response.status >= 400) {
+      throw new HttpError(response.status, `Loading "${src.name}" failed (HTTP ${response.status})`);
+    }
+    return {
+      text: response.text,
+      etag: headerValue(response.headers, "ETag"),
+      lastModified: headerValue(response.headers, "Last-Modified"),
+    };
+  }
+
+  /**
+   * Returns the CalDAV client for a source, recreating it when the
+   * server or credentials change.
+   */
+  getCalDavClient(src: CalendarSource): CalDavClient {
+    const key = [src.url, src.username, src.password].join("\n");
+    const cached = this.caldavClients[src.id];
+    if (cached?.key === key) return cached.client;
+
+    const client = new CalDavClient(
+      {
+        url: src.url.trim(),
+        username: src.username?.trim() ?? "",
+        password: src.password ?? "",
+      },
+      this.davTransport
+    );
+    this.caldavClients[src.id] = { key, client };
+    return client;
+  }
+
+  /**
+   * Computes the window to load, from the fetch options or else from
+   * `daysBefore`/`daysAhead`, padded by a few hours to catch events near
+   * the day boundaries.
+   */
+  private getRange(options: FetchOptions): EventRange {
+    let startBoundary: Date;
+    let endBoundary: Date;
+    if (options.start && options.end) {
+      startBoundary = options.start;
+      endBoundary = options.end;
+    } else {
+      const startLocal = new Date();
       startLocal.setHours(0, 0, 0, 0);
 
-      const startBoundary = new Date(
+      startBoundary = new Date(
         startLocal.getTime() - (this.settings.daysBefore ?? 0) * 24 * 3600 * 1000
       );
-      const endBoundary = new Date(
+      endBoundary = new Date(
         startLocal.getTime() + (this.settings.daysAhead ?? 7) * 24 * 3600 * 1000
       );
       endBoundary.setHours(23, 59, 59, 999);
-
-      const bufferHours = 12;
-      const startISO = new Date(startBoundary.getTime() - bufferHours * 3600 * 1000).toISOString();
-      const endISO = new Date(endBoundary.getTime() + bufferHours * 3600 * 1000).toISOString();
-
-      const startBoundaryUTC = new Date(startISO).getTime();
-      const endBoundaryUTC = new Date(endISO).getTime();
-
-      const filtered = allEvents.filter((ev) => {
-        const start = new Date(ev.start).getTime();
-        const end = new Date(ev.end || ev.start).getTime();
-        return (
-          (start >= startBoundaryUTC && start <= endBoundaryUTC) ||
-          (end >= startBoundaryUTC && end <= endBoundaryUTC) ||
-          (start <= startBoundaryUTC && end >= endBoundaryUTC)
-        );
-      });
-
-      console.log("Filtered events:", filtered.length);
-      return filtered.sort((a, b) => a.start.localeCompare(b.start));
-    } catch (error: any) {
-      console.error("Error fetching or parsing iCal feeds:", error);
-      throw new Error(`Unable to load iCal feeds: ${error.message || error}`);
     }
+
+    const bufferHours = 12;
+    return {
+      start: new Date(startBoundary.getTime() - bufferHours * 3600 * 1000),
+      end: new Date(endBoundary.getTime() + bufferHours * 3600 * 1000),
+    };
   }
 }
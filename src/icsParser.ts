@@ -0,0 +1,580 @@
+import { RRule } from "rrule";
+import type {
+  CalendarEvent,
+  CalendarTask,
+  EventPerson,
+  EventRange,
+  FeedDiagnostics,
+} from "./types";
+import type { Component, ContentLine } from "./utils/contentLines";
+import {
+  parseComponentLines,
+  parseContentLine,
+  scanComponents,
+  splitTextList,
+  unescapeText,
+} from "./utils/contentLines";
+import { normalizeTZID, resolveTZID } from "./utils/tzidMap";
+import type { VTimezone } from "./utils/vtimezone";
+import { parseVTimezones, vtimezoneUTCToWall, vtimezoneWallToUTC } from "./utils/vtimezone";
+import { formatWallTime, parseWallTime } from "./utils/wallTime";
+
+/**
+ * iCalendar (RFC 5545) feed parser: turns ICS text into CalendarEvents for a
+ * time window. Independent of the Obsidian API.
+ */
+
+/** Time zones defined by the feed's own VTIMEZONE blocks, keyed by TZID. */
+type ZoneTable = Record<string, VTimezone>;
+
+/**
+ * Reads a date property like DTSTART;TZID=America/New_York:20251105T120000
+ * The TZID is returned as written so feed-defined zones can be looked up.
+ */
+function readProp(prop: ContentLine): { value: string; tz?: string } {
+  return { value: prop.value, tz: prop.params.TZID };
+}
+
+/**
+ * Converts a wall time string with optional TZID to a UTC ISO string.
+ */
+function zonedWallTimeToUTCISO(dateStr: string, tz?: string): string | null {
+  if (!dateStr) return null;
+
+  const m = dateStr.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?$/);
+  if (!m) return null;
+  const [, y, mo, d, hh = "00", mm = "00", ss = "00"] = m;
+  const year = +y, month = +mo, day = +d, hour = +hh, minute = +mm, second = +ss;
+
+  // All-day events (VALUE=DATE)
+  if (!dateStr.includes("T")) {
+    return new Date(Date.UTC(year, month - 1, day, 0, 0, 0)).toISOString();
+  }
+
+  // If already UTC (Z suffix handled elsewhere), this won't be used
+  if (!tz) {
+    const local = new Date(year, month - 1, day, hour, minute, second);
+    return new Date(local.getTime() - local.getTimezoneOffset() * 60000).toISOString();
+  }
+
+  // Compute timezone offset using Intl.DateTimeFormat
+  try {
+    const dtf = new Intl.DateTimeFormat("en-US", {
+      timeZone: tz,
+      year: "numeric", month: "2-digit", day: "2-digit",
+      hour: "2-digit", minute: "2-digit", second: "2-digit",
+      hour12: false,
+    });
+    const parts = dtf.formatToParts(new Date(Date.UTC(year, month - 1, day, hour, minute, second)));
+    const obj: any = {};
+    for (const p of parts) obj[p.type] = p.value;
+    const tzWallUTC = Date.UTC(+obj.year, +obj.month - 1, +obj.day, +obj.hour, +obj.minute, +obj.second);
+    const naiveUTC = Date.UTC(year, month - 1, day, hour, minute, second);
+    const offsetMs = tzWallUTC - naiveUTC;
+    const intendedUTC = naiveUTC - offsetMs;
+    return new Date(intendedUTC).toISOString();
+  } catch {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second)).toISOString();
+  }
+}
+
+/**
+ * Converts a date/time value and optional TZID to an ISO UTC string.
+ * Floating dates (VALUE=DATE) stay dates and come back as YYYY-MM-DD.
+ * Zones defined in the feed win over IANA / Windows name lookups.
+ */
+function toISO(val: string, tz?: string, zones: ZoneTable = {}): string | null {
+  if (!val) return null;
+  try {
+    if (/^\d{8}$/.test(val)) {
+      // VALUE=DATE
+      const y = val.slice(0, 4);
+      const m = val.slice(4, 6);
+      const d = val.slice(6, 8);
+      return `${y}-${m}-${d}`;
+    }
+    if (val.endsWith("Z")) return parseWallTime(val)?.toISOString() ?? null;
+
+    const zone = tz ? zones[tz] : undefined;
+    if (zone) {
+      const wall = parseWallTime(val);
+      return wall ? vtimezoneWallToUTC(zone, wall).toISOString() : null;
+    }
+    return zonedWallTimeToUTCISO(val, normalizeTZID(tz));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shifts a YYYY-MM-DD date by a number of days.
+ */
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Reads an RFC 5545 DURATION such as "PT1H30M", "P1D" or "-P1W". Weeks and
+ * days are nominal (they follow the wall clock across DST changes); hours,
+ * minutes and seconds are exact.
+ */
+function parseDuration(value: string): { days: number; ms: number } | null {
+  const m = value.trim().match(/^([+-])?P(?:(\d+)W|(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?)$/i);
+  if (!m || value.trim().length <= 2 + (m[1] ? 1 : 0)) return null;
+  const [, sign, weeks = "0", days = "0", hours = "0", minutes = "0", seconds = "0"] = m;
+  const factor = sign === "-" ? -1 : 1;
+  return {
+    days: factor * (+weeks * 7 + +days),
+    ms: factor * ((+hours * 60 + +minutes) * 60 + +seconds) * 1000,
+  };
+}
+
+/**
+ * End of an event given as DTSTART plus DURATION, as an ISO string.
+ */
+function endFromDuration(start: string, tz: string | undefined, duration: string, zones: ZoneTable): string | null {
+  const dur = parseDuration(duration);
+  const wall = parseWallTime(start);
+  if (!dur || !wall) return null;
+
+  wall.setUTCDate(wall.getUTCDate() + dur.days);
+  const dateOnly = /^\d{8}$/.test(start);
+  const end = toISO(formatWallTime(wall, dateOnly) + (start.endsWith("Z") ? "Z" : ""), tz, zones);
+  if (!end || dateOnly) return end;
+  return new Date(new Date(end).getTime() + dur.ms).toISOString();
+}
+
+/**
+ * Converts an event boundary to epoch ms. All-day dates are floating,
+ * so they are read as local midnight.
+ */
+export function eventTime(value: string, allDay?: boolean): number {
+  return new Date(allDay ? `${value}T00:00:00` : value).getTime();
+}
+
+/**
+ * Converts a UTC instant to the wall clock time it shows in the given zone.
+ */
+function utcToZonedWall(date: Date, tz: string, zones: ZoneTable = {}): Date {
+  if (zones[tz]) return vtimezoneUTCToWall(zones[tz], date);
+  try {
+    const dtf = new Intl.DateTimeFormat("en-US", {
+      timeZone: normalizeTZID(tz),
+      year: "numeric", month: "2-digit", day: "2-digit",
+      hour: "2-digit", minute: "2-digit", second: "2-digit",
+      hour12: false,
+    });
+    const obj: any = {};
+    for (const p of dtf.formatToParts(date)) obj[p.type] = p.value;
+    return new Date(Date.UTC(+obj.year, +obj.month - 1, +obj.day, +obj.hour % 24, +obj.minute, +obj.second));
+  } catch {
+    return date;
+  }
+}
+
+/**
+ * Reads a comma-separated EXDATE/RDATE line into UTC ISO strings.
+ * PERIOD values keep only their start.
+ */
+function readDateList(prop: ContentLine, zones: ZoneTable): string[] {
+  const { value, tz } = readProp(prop);
+  return value
+    .split(",")
+    .map((v) => toISO(v.split("/")[0].trim(), tz, zones))
+    .filter((v): v is string => !!v);
+}
+
+/**
+ * Reads an ORGANIZER or ATTENDEE property.
+ */
+function readPerson(prop: ContentLine): EventPerson {
+  const email = prop.value.replace(/^mailto:/i, "").trim();
+  return {
+    name: prop.params.CN ? unescapeText(prop.params.CN) : undefined,
+    email: email || undefined,
+    role: prop.params.ROLE,
+    status: prop.params.PARTSTAT,
+  };
+}
+
+/** Descriptive fields shared by an event and every occurrence of its series. */
+type EventDetails = Omit<CalendarEvent, "id" | "start" | "end" | "calendarId" | "calendarName" | "color">;
+
+interface RecurringMaster {
+  uid: string;
+  details: EventDetails;
+  start: string;
+  startTz?: string;
+  startISO: string;
+  endISO: string | null;
+  rrule: string;
+  exdates: string[];
+  rdates: string[];
+}
+
+/**
+ * Expands a recurring master into occurrence start times (UTC ISO) that may
+ * overlap the given range. RRULE, RDATE and EXDATE are honored, and times are
+ * kept on the master's local wall clock.
+ */
+function expandOccurrences(m: RecurringMaster, range: EventRange, zones: ZoneTable): string[] {
+  const dtstart = parseWallTime(m.start);
+  if (!dtstart) return [];
+
+  const dateOnly = /^\d{8}$/.test(m.start);
+  const zone = m.start.endsWith("Z") ? "UTC" : m.startTz;
+  const options = RRule.parseString(m.rrule);
+
+  // A UTC UNTIL must be compared on the same wall clock as DTSTART
+  const untilRaw = m.rrule.match(/UNTIL=([0-9TZ]+)/i)?.[1];
+  if (options.until && zone && untilRaw?.toUpperCase().endsWith("Z")) {
+    options.until = utcToZonedWall(options.until, zone, zones);
+  }
+
+  const duration = m.endISO ? new Date(m.endISO).getTime() - new Date(m.startISO).getTime() : 0;
+
+  // Pad by a day on each side to cover any UTC offset between wall and real time
+  const dayMs = 24 * 3600 * 1000;
+  const after = new Date(range.start.getTime() - Math.max(duration, 0) - dayMs);
+  const before = new Date(range.end.getTime() + dayMs);
+
+  // Daily and weekly rules repeat every fixed number of days, so without COUNT
+  // DTSTART can jump forward by whole periods instead of iterating years of history
+  let first = dtstart;
+  if (!options.count && (options.freq === RRule.DAILY || options.freq === RRule.WEEKLY)) {
+    const periodMs = (options.freq === RRule.WEEKLY ? 7 : 1) * (options.interval || 1) * dayMs;
+    const periods = Math.floor((after.getTime() - dtstart.getTime()) / periodMs) - 1;
+    if (periods > 0) first = new Date(dtstart.getTime() + periods * periodMs);
+  }
+
+  const rule = new RRule({ ...options, dtstart: first });
+
+  const starts = new Set<string>();
+  for (const wall of rule.between(after, before, true)) {
+    const iso = toISO(formatWallTime(wall, dateOnly), zone, zones);
+    if (iso) starts.add(iso);
+  }
+  for (const rdate of m.rdates) {
+    const t = new Date(rdate).getTime();
+    if (t >= after.getTime() && t <= before.getTime()) starts.add(rdate);
+  }
+  for (const exdate of m.exdates) starts.delete(exdate);
+
+  return [...starts].sort();
+}
+
+/**
+ * Reads the descriptive properties shared by VEVENT and VTODO.
+ * Returns false for properties it does not handle.
+ */
+function readDetailProp(details: EventDetails, prop: ContentLine): boolean {
+  switch (prop.name) {
+    case "SUMMARY": details.subject = unescapeText(prop.value); break;
+    case "LOCATION": details.location = unescapeText(prop.value); break;
+    case "DESCRIPTION": details.description = unescapeText(prop.value); break;
+    case "URL": details.url = prop.value; break;
+    case "STATUS": details.status = prop.value.toUpperCase(); break;
+    case "TRANSP": details.transparency = prop.value.toUpperCase(); break;
+    case "CLASS": details.class = prop.value.toUpperCase(); break;
+    case "ORGANIZER": details.organizer = readPerson(prop); break;
+    case "ATTENDEE":
+      details.attendees = [...(details.attendees ?? []), readPerson(prop)];
+      break;
+    case "CATEGORIES":
+      details.categories = [...(details.categories ?? []), ...splitTextList(prop.value)];
+      break;
+    default:
+      return false;
+  }
+  return true;
+}
+
+/**
+ * Records a TZID that neither the feed nor the IANA tables can resolve.
+ */
+function noteUnresolvedZone(
+  tz: string | undefined,
+  subject: string,
+  zones: ZoneTable,
+  unresolvedZones: Record<string, string[]>
+) {
+  if (!tz || zones[tz] || resolveTZID(tz)) return;
+  unresolvedZones[tz] = unresolvedZones[tz] || [];
+  if (!unresolvedZones[tz].includes(subject)) unresolvedZones[tz].push(subject);
+}
+
+/**
+ * Parses a VTODO into a task entry placed on its due day (DTSTART if no DUE).
+ * Tasks without either date are skipped.
+ */
+function parseTodo(
+  vtodo: Component,
+  zones: ZoneTable,
+  unresolvedZones: Record<string, string[]>,
+  options: ParseOptions
+): CalendarEvent | null {
+  const details: EventDetails = { subject: "(no title)" };
+  if (options.includeRaw) details.raw = vtodo;
+  const task: CalendarTask = {};
+  let uid = "";
+  let due = "", dueTz = "";
+  let start = "", startTz = "";
+
+  for (const prop of vtodo.props) {
+    if (readDetailProp(details, prop)) continue;
+    switch (prop.name) {
+      case "UID": uid = prop.value; break;
+      case "DUE": {
+        const { value, tz } = readProp(prop);
+        due = value; dueTz = tz || "";
+        break;
+      }
+      case "DTSTART": {
+        const { value, tz } = readProp(prop);
+        start = value; startTz = tz || "";
+        break;
+      }
+      case "PRIORITY": task.priority = parseInt(prop.value) || undefined; break;
+      case "PERCENT-COMPLETE": task.percentComplete = parseInt(prop.value) || 0; break;
+      case "COMPLETED": task.completed = toISO(prop.value, undefined, zones) || undefined; break;
+    }
+  }
+
+  const when = due || start;
+  const whenTz = due ? dueTz : startTz;
+  const dueISO = toISO(when, whenTz || undefined, zones);
+  if (!uid || !dueISO || details.status === "CANCELLED") return null;
+
+  noteUnresolvedZone(whenTz, details.subject, zones, unresolvedZones);
+
+  return {
+    ...details,
+    id: uid + dueISO,
+    uid,
+    start: dueISO,
+    end: dueISO,
+    allDay: /^\d{8}$/.test(when),
+    task,
+  };
+}
+
+export interface ParsedFeed extends Pick<FeedDiagnostics, "unresolvedZones"> {
+  events: CalendarEvent[];
+}
+
+export interface ParseOptions {
+  // Keep each event's parsed component in `raw` (off by default to save memory)
+  includeRaw?: boolean;
+}
+
+// One-off events this far outside the window are dropped before parsing;
+// wall clock values are compared, so the slack covers any UTC offset
+const SKIP_SLACK_MS = 2 * 24 * 3600 * 1000;
+
+// Longest stretch the parser runs before yielding to the UI
+const PARSE_SLICE_MS = 12;
+
+/**
+ * Cheap check on a VEVENT's unparsed lines: true for a one-off event that
+ * clearly ends before or starts after the window. Recurring events and
+ * overrides are always kept, since they can affect occurrences in the window.
+ */
+function isOutsideWindow(lines: string[], range: EventRange): boolean {
+  let start: Date | null = null;
+  let end: Date | null = null;
+  let hasDuration = false;
+
+  for (const line of lines) {
+    switch (/^[A-Za-z-]+/.exec(line)?.[0].toUpperCase()) {
+      case "RRULE":
+      case "RDATE":
+      case "RECURRENCE-ID":
+        return false;
+      case "DURATION": hasDuration = true; break;
+      case "DTSTART": start = parseWallTime(parseContentLine(line)?.value ?? ""); break;
+      case "DTEND": end = parseWallTime(parseContentLine(line)?.value ?? ""); break;
+    }
+  }
+
+  if (!start) return false;
+  if (start.getTime() > range.end.getTime() + SKIP_SLACK_MS) return true;
+  if (hasDuration) return false;
+  return (end ?? start).getTime() < range.start.getTime() - SKIP_SLACK_MS;
+}
+
+/**
+ * Returns a function to call between units of work; it yields to the UI
+ * once the current slice has run for PARSE_SLICE_MS.
+ */
+function createYielder(): () => Promise<void> {
+  let sliceStart = Date.now();
+  return async () => {
+    if (Date.now() - sliceStart < PARSE_SLICE_MS) return;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    sliceStart = Date.now();
+  };
+}
+
+/**
+ * Full-featured Outlook-compatible ICS parser.
+ * Handles recurrence rules, cancellations, time zones, and folded lines.
+ * The text is streamed component by component: one-off events outside the
+ * range are skipped before their properties are parsed, and recurring events
+ * are expanded only across the range. Long feeds yield to the UI periodically.
+ */
+export async function parseICS(
+  icsText: string,
+  range: EventRange,
+  options: ParseOptions = {}
+): Promise<ParsedFeed> {
+  const events: CalendarEvent[] = [];
+  const unresolvedZones: Record<string, string[]> = {};
+  const timezones: Component[] = [];
+  const vevents: Component[] = [];
+  const vtodos: Component[] = [];
+
+  const yieldToUI = createYielder();
+  for (const block of scanComponents(icsText, ["VTIMEZONE", "VEVENT", "VTODO"])) {
+    if (block.name !== "VEVENT" || !isOutsideWindow(block.lines, range)) {
+      const [comp] = parseComponentLines(block.lines);
+      if (comp) {
+        if (comp.name === "VTIMEZONE") timezones.push(comp);
+        else if (comp.name === "VEVENT") vevents.push(comp);
+        else vtodos.push(comp);
+      }
+    }
+    await yieldToUI();
+  }
+
+  const zones = parseVTimezones(timezones);
+
+  const recurringMasters: Record<string, RecurringMaster> = {};
+  // Series occurrences that were cancelled or replaced by an override (RECURRENCE-ID)
+  const detachedInstances: Record<string, string[]> = {};
+
+  for (const vevent of vevents) {
+    await yieldToUI();
+    const details: EventDetails = { subject: "(no title)" };
+    if (options.includeRaw) details.raw = vevent;
+    let uid = "";
+    let start = "", startTz = "";
+    let end = "", endTz = "";
+    let duration = "";
+    let recurrenceId = "", recurrenceTz = "";
+    let rrule = "";
+    const exdates: string[] = [];
+    const rdates: string[] = [];
+
+    // Properties of nested components (VALARM) live in vevent.children and are ignored
+    for (const prop of vevent.props) {
+      if (readDetailProp(details, prop)) continue;
+      switch (prop.name) {
+        case "UID": uid = prop.value; break;
+        case "DTSTART": {
+          const { value, tz } = readProp(prop);
+          start = value; startTz = tz || "";
+          break;
+        }
+        case "DTEND": {
+          const { value, tz } = readProp(prop);
+          end = value; endTz = tz || "";
+          break;
+        }
+        case "DURATION": duration = prop.value; break;
+        case "RECURRENCE-ID": {
+          const { value, tz } = readProp(prop);
+          recurrenceId = value; recurrenceTz = tz || "";
+          break;
+        }
+        case "RRULE": rrule = prop.value; break;
+        case "EXDATE": exdates.push(...readDateList(prop, zones)); break;
+        case "RDATE": rdates.push(...readDateList(prop, zones)); break;
+      }
+    }
+
+    const startISO = toISO(start, startTz || undefined, zones);
+    const allDay = /^\d{8}$/.test(start);
+    // Without DTEND the end comes from DURATION; a DATE-only event with
+    // neither lasts one day
+    const endISO =
+      toISO(end, endTz || undefined, zones) ||
+      (duration && start ? endFromDuration(start, startTz || undefined, duration, zones) : null) ||
+      (allDay && startISO ? addDays(startISO, 1) : null);
+    const canceled = details.status === "CANCELLED";
+
+    if (!uid) continue;
+    details.uid = uid;
+    details.allDay = allDay;
+
+    for (const tz of [startTz, endTz, recurrenceTz]) {
+      noteUnresolvedZone(tz, details.subject, zones, unresolvedZones);
+    }
+
+    // An override detaches its original slot from the series; unless it is
+    // cancelled it is shown at its own time with its own details.
+    if (recurrenceId) {
+      detachedInstances[uid] = detachedInstances[uid] || [];
+      const ridISO = toISO(recurrenceId, recurrenceTz || undefined, zones);
+      if (ridISO) detachedInstances[uid].push(ridISO);
+    }
+
+    if (!startISO) continue;
+
+    if (rrule && !recurrenceId) {
+      recurringMasters[uid] = {
+        uid, details,
+        start, startTz: startTz || undefined,
+        startISO, endISO,
+        rrule, exdates, rdates,
+      };
+    } else if (!canceled) {
+      events.push({
+        ...details,
+        id: uid + startISO,
+        start: startISO,
+        end: endISO || startISO,
+        ...(recurrenceId ? { recurring: true } : {}),
+      });
+    }
+  }
+
+  // Expand recurrence rules
+  for (const uid in recurringMasters) {
+    await yieldToUI();
+    const m = recurringMasters[uid];
+    const duration = m.endISO ? new Date(m.endISO).getTime() - new Date(m.startISO).getTime() : 0;
+
+    let starts: string[];
+    try {
+      starts = expandOccurrences(m, range, zones);
+    } catch (err) {
+      console.warn(`[OCE] Could not expand recurrence for ${uid}:`, err);
+      continue;
+    }
+
+    for (const startDate of starts) {
+      const endDate = new Date(new Date(startDate).getTime() + duration).toISOString();
+      if (detachedInstances[uid]?.includes(startDate)) continue;
+
+      events.push({
+        ...m.details,
+        id: uid + startDate,
+        start: startDate,
+        end: m.details.allDay ? endDate.slice(0, 10) : endDate,
+        recurring: true,
+      });
+    }
+  }
+
+  for (const vtodo of vtodos) {
+    const task = parseTodo(vtodo, zones, unresolvedZones, options);
+    if (task) events.push(task);
+  }
+
+  return {
+    events: events.sort((a, b) => a.start.localeCompare(b.start)),
+    unresolvedZones,
+  };
+}
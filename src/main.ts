@@ -1,21 +1,53 @@
-import { Notice, Plugin, WorkspaceLeaf } from "obsidian";
-import { CalendarClient } from "./graph";
+import { debounce, Editor, normalizePath, Notice, Plugin, TAbstractFile, TFile, WorkspaceLeaf } from "obsidian";
+import moment from "moment";
+import { AgendaSync } from "./agendaSync";
+import { FeedCache } from "./feedCache";
+import { CalendarClient, isSourceConfigured } from "./graph";
+import type { FetchOptions, RefreshTrigger } from "./graph";
+import { MeetingNotes } from "./meetingNotes";
 import type { CalendarEvent, ObsidianCalendarSettings } from "./types";
+import { AGENDA_BLOCK_LANGUAGE, AgendaBlock } from "./ui/AgendaBlock";
 import { CalendarView, VIEW_TYPE_SPCALENDAR } from "./ui/CalendarView";
+import { DatePickerModal } from "./ui/DatePickerModal";
+import { EventSuggestModal } from "./ui/EventSuggestModal";
 import { ObsidianCalendarSettingTab, DEFAULT_SETTINGS } from "./settings";
+import { formatEventForNote } from "./templates";
+import { compareByTime, getEventDays } from "./utils/eventDays";
+import { daysBetween, getNotePeriod } from "./utils/notePeriod";
 
 export default class ObsidianCalendarPlugin extends Plugin {
   settings!: ObsidianCalendarSettings;
   calendar!: CalendarClient;
 
+  // Set while a background refresh runs, so triggers don't overlap
+  private refreshing = false;
+
+  // Rendered `calendar-events` code blocks, re-rendered after each refresh
+  agendaBlocks = new Set<AgendaBlock>();
+
+  meetingNotes!: MeetingNotes;
+
+  agendaSync!: AgendaSync;
+
+  // Daily notes whose agenda is being written, so triggers don't overlap
+  private syncingAgenda = new Set<string>();
+
   async onload() {
     console.log("[Obsidian Calendar Events] Loading plugin...");
 
     // Load saved settings (and migrate old single-calendar configs)
     await this.loadSettings();
 
-    // Initialize multi-calendar client
-    this.calendar = new CalendarClient(this.settings);
+    // Initialize multi-calendar client, with last good feeds cached in the plugin folder
+    const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.calendar = new CalendarClient(
+      this.settings,
+      this.app,
+      new FeedCache(this.app.vault.adapter, `${pluginDir}/cache`)
+    );
+
+    this.meetingNotes = new MeetingNotes(this.app, this.settings);
+    this.agendaSync = new AgendaSync(this.app, this.settings, this.calendar);
 
     // Register the custom calendar view
     this.registerView(VIEW_TYPE_SPCALENDAR, (leaf) => new CalendarView(leaf, this));
@@ -36,9 +68,14 @@ export default class ObsidianCalendarPlugin extends Plugin {
             return;
           }
 
-          const events = await this.calendar.fetchEvents();
+          const events = await this.calendar.fetchEvents(this.viewRange());
           await this.pushToView(events);
-          new Notice(`Fetched ${events.length} events.`);
+
+          const failed = this.calendar.getFailedSources();
+          new Notice(
+            `Fetched ${events.length} events.` +
+              (failed.length ? ` Failed: ${failed.map((c) => c.name).join(", ")}.` : "")
+          );
         } catch (e: any) {
           console.error("[OCE] Refresh failed:", e);
           new Notice(`Fetch failed: ${e?.message || e}`);
@@ -46,43 +83,74 @@ export default class ObsidianCalendarPlugin extends Plugin {
       },
     });
 
-    // Insert today’s events as Markdown
+    // Insert the events of the active note's day as Markdown
     this.addCommand({
       id: "oce-insert-todays-events",
-      name: "Insert Today's Events (Markdown)",
-      editorCallback: async (editor) => {
+      name: "Insert Events for Note's Date (Markdown)",
+      editorCallback: (editor, ctx) => {
+        const period = ctx.file ? getNotePeriod(ctx.file) : null;
+        if (period?.granularity === "day") {
+          this.insertEvents(editor, period.from, period.to);
+          return;
+        }
+        new DatePickerModal(this.app, false, moment(), (from, to) => this.insertEvents(editor, from, to)).open();
+      },
+    });
+
+    // Insert the events of a weekly or monthly note's days, grouped by day
+    this.addCommand({
+      id: "oce-insert-range-events",
+      name: "Insert Events for Note's Period (Markdown)",
+      editorCallback: (editor, ctx) => {
+        const period = ctx.file ? getNotePeriod(ctx.file) : null;
+        if (period) {
+          this.insertEvents(editor, period.from, period.to);
+          return;
+        }
+        const week = moment().startOf("week");
+        new DatePickerModal(this.app, true, week, (from, to) => this.insertEvents(editor, from, to)).open();
+      },
+    });
+
+    // Create or open the meeting note of an event in the shown range
+    this.addCommand({
+      id: "oce-create-meeting-note",
+      name: "Create Meeting Note from Event",
+      callback: async () => {
         try {
-          const enabled = this.settings.calendars.filter((c) => c.enabled);
-          if (!enabled.length) {
-            new Notice("No enabled calendars configured.");
+          // The loaded events are enough to pick from; no need for a request
+          const events = (await this.calendar.fetchEvents({ ...this.viewRange(), reload: [] })).filter(
+            (e) => !e.task
+          );
+          if (!events.length) {
+            new Notice("No events in the current range.");
             return;
           }
 
-          const events = await this.calendar.fetchEvents();
-          const today = new Date().toISOString().slice(0, 10);
-          const todaysEvents = events.filter((e) =>
-            e.start.startsWith(today)
-          );
-
-          const md = [
-            `### Events for ${today}`,
-            ...todaysEvents.map(
-              (e) =>
-                `- **${e.subject}** (${e.start} → ${e.end})${
-                  e.location ? ` — _${e.location}_` : ""
-                }${e.calendarName ? ` — *${e.calendarName}*` : ""}`
-            ),
-          ].join("\n");
-
-          editor.replaceSelection(md + "\n");
-          new Notice(`Inserted ${todaysEvents.length} events.`);
+          // Ongoing and upcoming meetings first, then the most recent past ones
+          const now = moment();
+          const upcoming = events.filter((e) => !moment(e.end || e.start).isBefore(now));
+          const past = events.filter((e) => moment(e.end || e.start).isBefore(now)).reverse();
+          new EventSuggestModal(this.app, [...upcoming, ...past], (e) => this.openMeetingNote(e)).open();
         } catch (e: any) {
-          console.error("[OCE] Insert failed:", e);
-          new Notice(`Insert failed: ${e?.message || e}`);
+          console.error("[OCE] Could not list events for a meeting note:", e);
+          new Notice(`Could not load events: ${e?.message || e}`);
         }
       },
     });
 
+    // Write the day's events into the open daily note
+    this.addCommand({
+      id: "oce-sync-daily-agenda",
+      name: "Sync Agenda in Active Daily Note",
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || !this.agendaSync.dailyNoteDate(file)) return false;
+        if (!checking) this.syncDailyAgenda(file, true);
+        return true;
+      },
+    });
+
     // Toggle sort order
     this.addCommand({
       id: "oce-toggle-sort-order",
@@ -93,7 +161,7 @@ export default class ObsidianCalendarPlugin extends Plugin {
         await this.saveSettings();
         new Notice(`Sort order set to ${this.settings.sortOrder.toUpperCase()}.`);
 
-        const events = await this.calendar.fetchEvents();
+        const events = await this.calendar.fetchEvents(this.viewRange());
         await this.pushToView(events);
       },
     });
@@ -123,6 +191,55 @@ export default class ObsidianCalendarPlugin extends Plugin {
       },
     });
 
+    // -----------------------------
+    // AGENDA CODE BLOCKS
+    // -----------------------------
+    this.registerMarkdownCodeBlockProcessor(AGENDA_BLOCK_LANGUAGE, (source, el, ctx) => {
+      ctx.addChild(new AgendaBlock(el, this, source, ctx.sourcePath));
+    });
+
+    // -----------------------------
+    // VAULT CALENDAR FILES
+    // -----------------------------
+
+    // Re-parse when an .ics file used as a calendar source changes
+    const reloadVaultCalendars = debounce(() => this.reloadVaultCalendars(), 1000, true);
+    const onVaultChange = (file: TAbstractFile) => {
+      if (this.isVaultCalendar(file.path)) reloadVaultCalendars();
+    };
+    this.registerEvent(this.app.vault.on("modify", onVaultChange));
+    this.registerEvent(this.app.vault.on("create", onVaultChange));
+
+    // -----------------------------
+    // DAILY NOTE AGENDA
+    // -----------------------------
+
+    // Registered once the layout is ready: the vault fires "create" for every
+    // file while it loads
+    this.app.workspace.onLayoutReady(() => {
+      this.registerEvent(
+        this.app.workspace.on("file-open", (file) => {
+          if (file && this.settings.syncDailyAgenda) this.syncDailyAgenda(file);
+        })
+      );
+      this.registerEvent(
+        this.app.vault.on("create", (file) => {
+          if (!(file instanceof TFile) || !this.settings.syncDailyAgenda) return;
+          // Give daily note templates time to write the note first
+          window.setTimeout(() => this.syncDailyAgenda(file), 1000);
+        })
+      );
+    });
+
+    // -----------------------------
+    // BACKGROUND REFRESH
+    // -----------------------------
+
+    // Each source is reloaded once its interval (or failure backoff) has elapsed
+    this.registerInterval(window.setInterval(() => this.autoRefresh("timer"), 60 * 1000));
+    this.registerDomEvent(window, "focus", () => this.autoRefresh("focus"));
+    this.registerDomEvent(window, "online", () => this.autoRefresh("online"));
+
     // -----------------------------
     // SETTINGS TAB
     // -----------------------------
@@ -141,7 +258,7 @@ export default class ObsidianCalendarPlugin extends Plugin {
       view.showLoading();
 
       const enabledCalendars =
-        this.settings.calendars?.filter((c) => c.enabled && c.url.trim()) ?? [];
+        this.settings.calendars?.filter((c) => c.enabled && isSourceConfigured(c)) ?? [];
 
       if (enabledCalendars.length === 0) {
         console.log("[OCE] No calendars configured — showing setup state.");
@@ -153,13 +270,18 @@ export default class ObsidianCalendarPlugin extends Plugin {
       }
 
       try {
-        const events = await this.calendar.fetchEvents();
+        const events = await this.calendar.fetchEvents(view.getRange());
         view.setEvents(events);
-      } catch (err) {
+        this.refreshAgendaBlocks();
+
+        // A daily note opened before the feeds loaded had nothing to sync yet
+        const active = this.app.workspace.getActiveFile();
+        if (active && this.settings.syncDailyAgenda) this.syncDailyAgenda(active);
+      } catch (err: any) {
         console.warn("[OCE] Startup fetch failed:", err);
         view.setEvents([]);
         new Notice(
-          "Unable to load calendar events. Check your calendar URLs or network connection."
+          `Unable to load calendar events. ${err?.message || "Check your calendar URLs or network connection."}`
         );
       }
     });
@@ -187,12 +309,160 @@ export default class ObsidianCalendarPlugin extends Plugin {
     return leaf;
   }
 
+  private isVaultCalendar(path: string): boolean {
+    return this.settings.calendars.some(
+      (c) => c.enabled && c.type === "vault" && c.path && normalizePath(c.path) === path
+    );
+  }
+
+  private async reloadVaultCalendars() {
+    // Only refresh an open view; don't pop the panel open on file edits
+    const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SPCALENDAR)[0];
+    if (!leaf) return;
+
+    const vaultIds = this.settings.calendars.filter((c) => c.type === "vault").map((c) => c.id);
+    try {
+      const events = await this.calendar.fetchEvents({ ...this.viewRange(), reload: vaultIds });
+      (leaf.view as CalendarView).updateEvents(events);
+      this.refreshAgendaBlocks();
+    } catch (e) {
+      console.warn("[OCE] Reload after vault change failed:", e);
+    }
+  }
+
+  /**
+   * Reloads the sources that are due while the view is open.
+   * The view only re-renders when the events actually changed.
+   */
+  private async autoRefresh(trigger: RefreshTrigger) {
+    const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SPCALENDAR)[0];
+    if (!leaf || this.refreshing) return;
+
+    const due = this.calendar.getDueSources(trigger);
+    if (!due.length) return;
+
+    this.refreshing = true;
+    try {
+      const events = await this.calendar.fetchEvents({ ...this.viewRange(), reload: due });
+      (leaf.view as CalendarView).updateEvents(events);
+      this.refreshAgendaBlocks();
+    } catch (e) {
+      console.warn(`[OCE] Background refresh (${trigger}) failed:`, e);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * The range the open calendar view shows, so refreshes keep its navigation.
+   */
+  private viewRange(): FetchOptions {
+    const view = this.app.workspace.getLeavesOfType(VIEW_TYPE_SPCALENDAR)[0]?.view;
+    return view instanceof CalendarView ? view.getRange() : {};
+  }
+
   private async pushToView(events: CalendarEvent[]) {
     let leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SPCALENDAR)[0];
     if (!leaf) leaf = await this.activateView();
 
     const view = leaf.view as CalendarView;
     view.setEvents(events);
+    this.refreshAgendaBlocks();
+  }
+
+  /**
+   * Opens the meeting note of an event, creating it from the template first
+   * when there is none.
+   */
+  async openMeetingNote(event: CalendarEvent) {
+    try {
+      await this.meetingNotes.openOrCreate(event);
+      const leaf = this.app.workspace.getLeavesOfType(VIEW_TYPE_SPCALENDAR)[0];
+      if (leaf?.view instanceof CalendarView) leaf.view.redraw();
+    } catch (e: any) {
+      console.error("[OCE] Could not create meeting note:", e);
+      new Notice(`Could not create meeting note: ${e?.message || e}`);
+    }
+  }
+
+  /**
+   * Inserts the events of the local days from `from` to `to` at the cursor:
+   * a single day as one list, a range grouped under a heading per day.
+   */
+  private async insertEvents(editor: Editor, from: moment.Moment, to: moment.Moment) {
+    try {
+      const enabled = this.settings.calendars.filter((c) => c.enabled);
+      if (!enabled.length) {
+        new Notice("No enabled calendars configured.");
+        return;
+      }
+
+      // Reuse the last load when it holds these days; otherwise load them
+      const range = { start: from.clone().startOf("day").toDate(), end: to.clone().endOf("day").toDate() };
+      const events = await this.calendar.fetchEvents(
+        this.calendar.coversRange(range) ? { ...range, reload: [] } : range
+      );
+      const days = daysBetween(from, to);
+      const eventsOn = (day: string) => events.filter((e) => getEventDays(e).includes(day)).sort(compareByTime);
+      const lines = (list: CalendarEvent[]) => list.map((e) => formatEventForNote(e, this.settings));
+
+      let md: string[];
+      let count = 0;
+      if (days.length === 1) {
+        const dayEvents = eventsOn(days[0]);
+        count = dayEvents.length;
+        md = [`### Events for ${days[0]}`, ...lines(dayEvents)];
+      } else {
+        md = [`### Events for ${days[0]} – ${days[days.length - 1]}`];
+        for (const day of days) {
+          const dayEvents = eventsOn(day);
+          if (!dayEvents.length) continue;
+          count += dayEvents.length;
+          md.push("", `#### ${moment(day).format("dddd, MMMM D")}`, ...lines(dayEvents));
+        }
+      }
+
+      editor.replaceSelection(md.join("\n") + "\n");
+      // A calendar that failed without a cached copy added nothing
+      const failed = this.calendar.getFailedSources();
+      new Notice(
+        `Inserted ${count} events.` +
+          (failed.length ? ` Failed: ${failed.map((c) => c.name).join(", ")}.` : "")
+      );
+    } catch (e: any) {
+      console.error("[OCE] Insert failed:", e);
+      new Notice(`Insert failed: ${e?.message || e}`);
+    }
+  }
+
+  /**
+   * Writes the day's events into the agenda block of a daily note. Other
+   * files are ignored.
+   */
+  async syncDailyAgenda(file: TFile, notify = false) {
+    if (!this.agendaSync.dailyNoteDate(file) || this.syncingAgenda.has(file.path)) return;
+    if (!this.settings.calendars.some((c) => c.enabled && isSourceConfigured(c))) {
+      if (notify) new Notice("No enabled calendars configured.");
+      return;
+    }
+
+    this.syncingAgenda.add(file.path);
+    try {
+      await this.agendaSync.sync(file);
+      if (notify) new Notice("Agenda updated.");
+    } catch (e: any) {
+      console.error("[OCE] Daily note agenda sync failed:", e);
+      if (notify) new Notice(`Agenda sync failed: ${e?.message || e}`);
+    } finally {
+      this.syncingAgenda.delete(file.path);
+    }
+  }
+
+  /**
+   * Re-renders the agenda code blocks of open notes after a refresh.
+   */
+  refreshAgendaBlocks() {
+    for (const block of this.agendaBlocks) block.render();
   }
 
   // -----------------------------
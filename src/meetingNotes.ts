@@ -0,0 +1,116 @@
+import { App, normalizePath, TFile } from "obsidian";
+import moment from "moment";
+import { getDailyNoteSettings } from "obsidian-daily-notes-interface";
+import { renderEventTemplate } from "./templates";
+import type { CalendarEvent, ObsidianCalendarSettings } from "./types";
+
+export const DEFAULT_MEETING_NOTE_NAME = "{{date}} {{subject}}";
+export const DEFAULT_MEETING_NOTE_BODY =
+  "# {{subject}}\n\n{{#description}}{{description}}\n\n{{/description}}## Notes\n\n- \n\n## Action items\n\n- [ ] \n";
+
+// Characters Obsidian does not allow in file names or links
+const INVALID_NAME_CHARS = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * Creates and finds notes for meetings. A note belongs to an event when its
+ * frontmatter `uid` matches; occurrences of a recurring series share a UID,
+ * so for those the `start` day must match too.
+ */
+export class MeetingNotes {
+  // Notes created this session, until the metadata cache has indexed them
+  private created = new Map<string, string>();
+
+  constructor(private app: App, private settings: ObsidianCalendarSettings) {}
+
+  /**
+   * Builds a lookup of meeting notes by key, once per render.
+   */
+  buildIndex(): Map<string, TFile> {
+    const index = new Map<string, TFile>();
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      const uid = fm?.uid;
+      if (typeof uid !== "string" || !uid) continue;
+      index.set(uid, file);
+      if (fm?.start) index.set(`${uid}@${moment(String(fm.start)).format("YYYY-MM-DD")}`, file);
+    }
+    for (const [key, path] of this.created) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile && !index.has(key)) index.set(key, file);
+    }
+    return index;
+  }
+
+  /**
+   * The existing note for an event, if any.
+   */
+  findNote(e: CalendarEvent, index = this.buildIndex()): TFile | null {
+    const key = noteKey(e);
+    return key ? index.get(key) ?? null : null;
+  }
+
+  /**
+   * Opens the event's note, creating it first when there is none.
+   */
+  async openOrCreate(e: CalendarEvent): Promise<TFile> {
+    const file = this.findNote(e) ?? (await this.create(e));
+    await this.app.workspace.getLeaf(false).openFile(file);
+    return file;
+  }
+
+  private async create(e: CalendarEvent): Promise<TFile> {
+    const { vault } = this.app;
+    const folder = normalizePath(this.settings.meetingNoteFolder || "/");
+    if (folder !== "/" && !vault.getAbstractFileByPath(folder)) await vault.createFolder(folder);
+
+    const name =
+      renderEventTemplate(this.settings.meetingNoteName || DEFAULT_MEETING_NOTE_NAME, e, this.settings)
+        .replace(INVALID_NAME_CHARS, "")
+        .replace(/\s+/g, " ")
+        .trim() || "Meeting";
+    const prefix = folder === "/" ? "" : `${folder}/`;
+    let path = normalizePath(`${prefix}${name}.md`);
+    for (let n = 2; vault.getAbstractFileByPath(path); n++) path = normalizePath(`${prefix}${name} ${n}.md`);
+
+    const file = await vault.create(path, renderEventTemplate(await this.readTemplate(), e, this.settings));
+    await this.app.fileManager.processFrontMatter(file, (fm) => {
+      if (e.uid) fm.uid = e.uid;
+      fm.start = e.start;
+      fm.end = e.end;
+      if (e.calendarName) fm.calendar = e.sources?.map((s) => s.calendarName) ?? e.calendarName;
+      if (e.organizer) fm.organizer = e.organizer.name || e.organizer.email;
+      fm.attendees = (e.attendees ?? []).map((a) => a.name || a.email).filter(Boolean);
+      fm.daily = `[[${dailyNoteName(e)}]]`;
+    });
+
+    const key = noteKey(e);
+    if (key) this.created.set(key, file.path);
+    return file;
+  }
+
+  private async readTemplate(): Promise<string> {
+    const path = this.settings.meetingNoteTemplate?.trim();
+    if (!path) return DEFAULT_MEETING_NOTE_BODY;
+
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path.endsWith(".md") ? path : `${path}.md`));
+    if (!(file instanceof TFile)) throw new Error(`Meeting note template "${path}" was not found.`);
+    return this.app.vault.read(file);
+  }
+}
+
+/**
+ * Index key of an event's note: the UID, plus the day for recurring events.
+ */
+function noteKey(e: CalendarEvent): string | null {
+  if (!e.uid) return null;
+  return e.recurring ? `${e.uid}@${moment(e.start).format("YYYY-MM-DD")}` : e.uid;
+}
+
+/**
+ * Link text of the daily note for the event's day, following the daily
+ * notes format (the note need not exist yet).
+ */
+function dailyNoteName(e: CalendarEvent): string {
+  const { format } = getDailyNoteSettings();
+  return moment(e.start).format(format || "YYYY-MM-DD");
+}
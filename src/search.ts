@@ -0,0 +1,76 @@
+import type { CalendarEvent } from "./types";
+
+/**
+ * Quick filter typed into the calendar view. Plain words must all appear in
+ * the subject, location, calendar name or description; `cal:` and `loc:`
+ * narrow a word to the calendar name or the location. Quote values with
+ * spaces: `cal:"Team Events"`.
+ */
+export interface SearchQuery {
+  terms: string[];
+  calendars: string[];
+  locations: string[];
+}
+
+const TOKEN_RE = /(?:(cal|loc):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export function parseSearchQuery(text: string): SearchQuery {
+  const query: SearchQuery = { terms: [], calendars: [], locations: [] };
+  for (const m of text.matchAll(TOKEN_RE)) {
+    const value = (m[2] ?? m[3] ?? "").trim().toLowerCase();
+    if (!value) continue;
+    const prefix = m[1]?.toLowerCase();
+    // A prefix still being typed ("cal:") doesn't filter yet
+    if (!prefix && /^(cal|loc):$/.test(value)) continue;
+    if (prefix === "cal") query.calendars.push(value);
+    else if (prefix === "loc") query.locations.push(value);
+    else query.terms.push(value);
+  }
+  return query;
+}
+
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return !query.terms.length && !query.calendars.length && !query.locations.length;
+}
+
+/**
+ * Names of every calendar the event belongs to (several when merged).
+ */
+function calendarNames(e: CalendarEvent): string[] {
+  return e.sources?.map((s) => s.calendarName) ?? (e.calendarName ? [e.calendarName] : []);
+}
+
+export function matchesQuery(e: CalendarEvent, query: SearchQuery): boolean {
+  const calendars = calendarNames(e).map((n) => n.toLowerCase());
+  const location = (e.location ?? "").toLowerCase();
+  const haystack = [e.subject ?? "", e.location ?? "", e.description ?? "", ...calendarNames(e)]
+    .join("\n")
+    .toLowerCase();
+
+  return (
+    query.calendars.every((c) => calendars.some((n) => n.includes(c))) &&
+    query.locations.every((l) => location.includes(l)) &&
+    query.terms.every((t) => haystack.includes(t))
+  );
+}
+
+/**
+ * Appends `text` to `parent`, wrapping case-insensitive occurrences of the
+ * terms in `<mark>`.
+ */
+export function appendHighlighted(parent: HTMLElement, text: string, terms: string[]) {
+  const words = terms.filter(Boolean);
+  if (!words.length) {
+    parent.appendText(text);
+    return;
+  }
+
+  const escaped = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const re = new RegExp(`(${escaped.join("|")})`, "gi");
+  text.split(re).forEach((part, i) => {
+    if (!part) return;
+    // split() puts the captured matches at odd indexes
+    if (i % 2) parent.createEl("mark", { cls: "spcalendar-match", text: part });
+    else parent.appendText(part);
+  });
+}
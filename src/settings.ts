@@ -1,15 +1,30 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, Notice, PluginSettingTab, Setting } from "obsidian";
+import type { CalDavCollection } from "./caldav";
 import ObsidianCalendarPlugin from "./main";
-import type { ObsidianCalendarSettings } from "./types";
+import type { CalendarSource, EventRule, FilterRule, ObsidianCalendarSettings } from "./types";
+import { EVENT_RULE_FIELDS, validateEventRule } from "./eventRules";
+import { applyFilters, countRemovedByRule, FILTER_FIELDS, validateRule } from "./filters";
+import { DEFAULT_MEETING_NOTE_NAME } from "./meetingNotes";
+import { DEFAULT_EVENT_TEMPLATE, TEMPLATE_PLACEHOLDERS } from "./templates";
+import { parseHeaderLines } from "./utils/http";
 
 export const DEFAULT_SETTINGS: ObsidianCalendarSettings = {
   calendars: [], // default empty array
   daysBefore: 0,
   daysAhead: 7,
+  refreshInterval: 30,
+  mergeDuplicates: false,
+  eventRules: [],
+  labelsAsTags: true,
+  eventTemplate: DEFAULT_EVENT_TEMPLATE,
+  meetingNoteFolder: "Meetings",
+  meetingNoteName: DEFAULT_MEETING_NOTE_NAME,
+  meetingNoteTemplate: "",
   sortOrder: "asc",
   pinToday: true,
   addUnderHeading: false,
   headingName: "Calendar Events",
+  syncDailyAgenda: false,
   firstRun: true,
   visibleCalendars: {},
   collapsedDays: {},
@@ -20,6 +35,12 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
   settings: ObsidianCalendarSettings;
   save: () => Promise<void>;
 
+  // Calendars found by "Discover", per CalDAV source (not persisted)
+  private discovered: Record<string, CalDavCollection[]> = {};
+
+  // Sources whose filter list is expanded, kept across re-renders
+  private openFilters = new Set<string>();
+
   constructor(
     app: App,
     plugin: ObsidianCalendarPlugin,
@@ -41,7 +62,9 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
     // Calendar Sources
     new Setting(containerEl)
       .setName("Calendar Sources")
-      .setDesc("Manage multiple iCal (.ics) calendar feeds below.");
+      .setDesc(
+        "Manage multiple iCal (.ics) calendar feeds below. Use a URL, or the path of an .ics file in this vault."
+      );
 
     const list = containerEl.createDiv();
     (this.settings.calendars ?? []).forEach((cal, i) => {
@@ -56,15 +79,37 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
               await this.save();
             })
         )
-        .addText((t) =>
-          t
-            .setPlaceholder("https://example.com/feed.ics")
-            .setValue(cal.url)
+        .addDropdown((d) =>
+          d
+            .addOption("url", "URL")
+            .addOption("vault", "Vault file")
+            .addOption("caldav", "CalDAV")
+            .setValue(cal.type ?? "url")
             .onChange(async (v) => {
-              cal.url = v.trim();
+              cal.type = v as CalendarSource["type"];
               await this.save();
+              this.display(); // swap the URL / path field
             })
         )
+        .addText((t) =>
+          cal.type === "vault"
+            ? t
+                .setPlaceholder("Calendars/schedule.ics")
+                .setValue(cal.path ?? "")
+                .onChange(async (v) => {
+                  cal.path = v.trim();
+                  await this.save();
+                })
+            : t
+                .setPlaceholder(
+                  cal.type === "caldav" ? "https://dav.example.com/" : "https://example.com/feed.ics"
+                )
+                .setValue(cal.url)
+                .onChange(async (v) => {
+                  cal.url = v.trim();
+                  await this.save();
+                })
+        )
         .addColorPicker((p) =>
           p.setValue(cal.color || "#4A90E2").onChange(async (c) => {
             cal.color = c;
@@ -83,10 +128,33 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
             .setTooltip("Remove Calendar")
             .onClick(async () => {
               this.settings.calendars.splice(i, 1);
+              await this.plugin.calendar.cache.remove(cal.id);
               await this.save();
               this.display();
             })
         );
+
+      if (cal.type === "caldav") this.displayCalDavAccount(list, cal);
+      else if (cal.type !== "vault") this.displayFeedAuth(list, cal);
+      if (cal.type !== "vault") this.displaySourceRefresh(list, cal);
+      this.displayFilters(list, cal);
+      this.displaySourceTemplate(list, cal);
+
+      // Time zones from the last fetch that fell back to UTC
+      const unresolved = Object.entries(
+        this.plugin.calendar?.diagnostics[cal.id]?.unresolvedZones ?? {}
+      );
+      if (unresolved.length) {
+        const warning = list.createDiv({ cls: "spcalendar-setting-warning" });
+        warning.createEl("strong", {
+          text: "Unrecognized time zones (these events are shown as UTC):",
+        });
+        const items = warning.createEl("ul");
+        for (const [tzid, subjects] of unresolved) {
+          const more = subjects.length > 5 ? ` and ${subjects.length - 5} more` : "";
+          items.createEl("li", { text: `${tzid} — ${subjects.slice(0, 5).join(", ")}${more}` });
+        }
+      }
     });
 
     new Setting(containerEl)
@@ -140,6 +208,24 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    // Auto-refresh
+    new Setting(containerEl)
+      .setName("Auto-refresh Interval")
+      .setDesc(
+        "Minutes between background refreshes while the calendar view is open (0 turns it off). " +
+          "Also refreshes when Obsidian regains focus or the network comes back."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("30")
+          .setValue(this.settings.refreshInterval.toString())
+          .onChange(async (value) => {
+            const parsed = parseInt(value);
+            this.settings.refreshInterval = isNaN(parsed) ? 30 : Math.max(parsed, 0);
+            await this.save();
+          })
+      );
+
     // Sort order
     new Setting(containerEl)
       .setName("Sort Order")
@@ -168,6 +254,112 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
           })
       );
 
+    // Merge duplicates across calendars
+    new Setting(containerEl)
+      .setName("Merge Duplicate Events")
+      .setDesc(
+        "Show a meeting that appears in several calendars (same UID and start time) once, with a dot for each calendar."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.settings.mergeDuplicates)
+          .onChange(async (value) => {
+            this.settings.mergeDuplicates = value;
+            await this.save();
+            this.display(); // show or hide the owner option
+          })
+      );
+
+    if (this.settings.mergeDuplicates) {
+      new Setting(containerEl)
+        .setName("Merged Event Owner")
+        .setDesc("Calendar whose title, details and color are used for a merged event, when it has a copy.")
+        .addDropdown((d) => {
+          d.addOption("", "First calendar in the list");
+          for (const cal of this.settings.calendars) d.addOption(cal.id, cal.name);
+          d.setValue(this.settings.mergeOwnerId ?? "").onChange(async (v) => {
+            this.settings.mergeOwnerId = v || undefined;
+            await this.save();
+          });
+        });
+    }
+
+    this.displayEventRules(containerEl);
+
+    // Insert template
+    new Setting(containerEl)
+      .setName("Insert Template")
+      .setDesc(
+        `How events are written when added to the daily note or inserted with a command. ` +
+          `Placeholders: ${TEMPLATE_PLACEHOLDERS.map((p) => `{{${p}}}`).join(", ")}. ` +
+          `start, end and date take a format, e.g. {{start:HH:mm}}. ` +
+          `{{#location}}...{{/location}} is kept only when the event has a location, {{^location}}...{{/location}} only when it has none.`
+      )
+      .setClass("spcalendar-template-setting")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(DEFAULT_EVENT_TEMPLATE)
+          .setValue(this.settings.eventTemplate)
+          .onChange(async (value) => {
+            this.settings.eventTemplate = value;
+            await this.save();
+          })
+      )
+      .addExtraButton((btn) =>
+        btn
+          .setIcon("rotate-ccw")
+          .setTooltip("Restore Default")
+          .onClick(async () => {
+            this.settings.eventTemplate = DEFAULT_EVENT_TEMPLATE;
+            await this.save();
+            this.display();
+          })
+      );
+
+    // Meeting notes
+    new Setting(containerEl)
+      .setName("Meeting Notes Folder")
+      .setDesc("Where notes created from events are stored.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Meetings")
+          .setValue(this.settings.meetingNoteFolder)
+          .onChange(async (value) => {
+            this.settings.meetingNoteFolder = value.trim();
+            await this.save();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Meeting Note Name")
+      .setDesc("File name of a meeting note; uses the same placeholders as the insert template.")
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_MEETING_NOTE_NAME)
+          .setValue(this.settings.meetingNoteName)
+          .onChange(async (value) => {
+            this.settings.meetingNoteName = value;
+            await this.save();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Meeting Note Template")
+      .setDesc(
+        "Path of a note in this vault used as the body of new meeting notes, with the same placeholders. " +
+          "Leave empty for a simple notes and action items layout. uid, start, end, calendar, organizer, " +
+          "attendees and a link to the daily note are always added to the frontmatter."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Templates/Meeting")
+          .setValue(this.settings.meetingNoteTemplate)
+          .onChange(async (value) => {
+            this.settings.meetingNoteTemplate = value.trim();
+            await this.save();
+          })
+      );
+
     // Add events under heading
     new Setting(containerEl)
       .setName("Add Events Under Heading")
@@ -184,8 +376,24 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
           })
       );
 
-    // Heading name (only visible if toggle is enabled)
-    if (this.settings.addUnderHeading) {
+    // Keep an agenda block in daily notes up to date
+    new Setting(containerEl)
+      .setName("Sync Agenda in Daily Notes")
+      .setDesc(
+        "Write the day's events under the heading when a daily note is created or opened. Lines keep their checkbox and anything typed after them; cancelled events are removed."
+      )
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.settings.syncDailyAgenda)
+          .onChange(async (value) => {
+            this.settings.syncDailyAgenda = value;
+            await this.save();
+            this.display(); // re-render to show or hide heading name field
+          })
+      );
+
+    // Heading name (only visible if a toggle that uses it is enabled)
+    if (this.settings.addUnderHeading || this.settings.syncDailyAgenda) {
       new Setting(containerEl)
         .setName("Heading Name")
         .setDesc("The heading under which events will be added in the daily note.")
@@ -200,4 +408,385 @@ export class ObsidianCalendarSettingTab extends PluginSettingTab {
         );
     }
   }
+
+  /**
+   * Ordered rules that color, label and add an icon to matching events.
+   */
+  private displayEventRules(containerEl: HTMLElement) {
+    const rules = this.settings.eventRules;
+
+    new Setting(containerEl)
+      .setName("Event Rules")
+      .setDesc(
+        "Color, label and add an icon to events whose title, location, category or organizer matches a regular expression. " +
+          "Rules are checked top to bottom: every match adds its label, the first match with a color or icon sets it. " +
+          "Changes apply on the next refresh."
+      );
+
+    const list = containerEl.createDiv({ cls: "spcalendar-event-rules" });
+    rules.forEach((rule, i) => {
+      const move = async (to: number) => {
+        rules.splice(to, 0, ...rules.splice(i, 1));
+        await this.save();
+        this.display();
+      };
+
+      const match = new Setting(list)
+        .setName(`Rule ${i + 1}`)
+        .setDesc(validateEventRule(rule) ?? "")
+        .addDropdown((d) => {
+          for (const [field, label] of Object.entries(EVENT_RULE_FIELDS)) d.addOption(field, label);
+          d.setValue(rule.field).onChange(async (v) => {
+            rule.field = v as EventRule["field"];
+            await this.save();
+          });
+        })
+        .addText((t) =>
+          t
+            .setPlaceholder("Regex, e.g. ^1:1")
+            .setValue(rule.pattern)
+            .onChange(async (v) => {
+              rule.pattern = v;
+              match.setDesc(validateEventRule(rule) ?? "");
+              await this.save();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip("Move Up")
+            .setDisabled(i === 0)
+            .onClick(() => move(i - 1))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-down")
+            .setTooltip("Move Down")
+            .setDisabled(i === rules.length - 1)
+            .onClick(() => move(i + 1))
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove Rule")
+            .onClick(async () => {
+              rules.splice(i, 1);
+              await this.save();
+              this.display();
+            })
+        );
+
+      new Setting(list)
+        .setClass("spcalendar-event-rule-style")
+        .setDesc("Label, icon and color")
+        .addText((t) =>
+          t
+            .setPlaceholder("Label, e.g. Customer")
+            .setValue(rule.label ?? "")
+            .onChange(async (v) => {
+              rule.label = v.trim() || undefined;
+              await this.save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Icon, e.g. users")
+            .setValue(rule.icon ?? "")
+            .onChange(async (v) => {
+              rule.icon = v.trim() || undefined;
+              await this.save();
+            })
+        )
+        .addToggle((t) =>
+          t
+            .setTooltip("Use a custom color")
+            .setValue(!!rule.color)
+            .onChange(async (v) => {
+              rule.color = v ? "#E67E22" : undefined;
+              await this.save();
+              this.display(); // show or hide the color picker
+            })
+        )
+        .then((s) => {
+          if (!rule.color) return;
+          s.addColorPicker((p) =>
+            p.setValue(rule.color!).onChange(async (c) => {
+              rule.color = c;
+              await this.save();
+            })
+          );
+        });
+    });
+
+    new Setting(containerEl).addButton((btn) =>
+      btn.setButtonText("Add Rule").onClick(async () => {
+        rules.push({ field: "summary", pattern: "" });
+        await this.save();
+        this.display();
+      })
+    );
+
+    new Setting(containerEl)
+      .setName("Add Labels as Tags")
+      .setDesc('Append rule labels as tags (e.g. "Customer call" → #customer-call) when inserting events into notes.')
+      .addToggle((toggle) =>
+        toggle.setValue(this.settings.labelsAsTags).onChange(async (value) => {
+          this.settings.labelsAsTags = value;
+          await this.save();
+        })
+      );
+  }
+
+  /**
+   * Include/exclude rules of a source, with a live count of the events each
+   * rule hides (from the last fetch).
+   */
+  private displayFilters(containerEl: HTMLElement, cal: CalendarSource) {
+    const rules = cal.filters ?? [];
+    const details = containerEl.createEl("details", { cls: "spcalendar-filters" });
+    details.open = this.openFilters.has(cal.id);
+    details.addEventListener("toggle", () => {
+      if (details.open) this.openFilters.add(cal.id);
+      else this.openFilters.delete(cal.id);
+    });
+    details.createEl("summary", { text: `Filters (${rules.length})` });
+
+    const summary = details.createDiv({ cls: "setting-item-description" });
+    const previews: HTMLElement[] = [];
+
+    const updatePreview = () => {
+      const events = this.plugin.calendar.getUnfilteredEvents(cal.id);
+      const removed = countRemovedByRule(events, rules);
+      rules.forEach((rule, i) => {
+        const problem = validateRule(rule);
+        previews[i].setText(
+          problem ? `${problem}; ignored until fixed` : `Hides ${removed[i]} event${removed[i] === 1 ? "" : "s"}`
+        );
+        previews[i].toggleClass("mod-warning", !!problem);
+      });
+      const hidden = events.length - applyFilters(events, rules).length;
+      summary.setText(
+        events.length
+          ? `${hidden} of ${events.length} loaded events hidden.`
+          : "No events loaded yet; counts appear after the next refresh."
+      );
+    };
+
+    rules.forEach((rule, i) => {
+      const row = new Setting(details)
+        .setClass("spcalendar-filter-rule")
+        .addDropdown((d) =>
+          d
+            .addOption("exclude", "Hide")
+            .addOption("include", "Only show")
+            .setValue(rule.action)
+            .onChange(async (v) => {
+              rule.action = v as FilterRule["action"];
+              updatePreview();
+              await this.save();
+            })
+        )
+        .addDropdown((d) => {
+          for (const [field, label] of Object.entries(FILTER_FIELDS)) d.addOption(field, label);
+          d.setValue(rule.field).onChange(async (v) => {
+            rule.field = v as FilterRule["field"];
+            updatePreview();
+            await this.save();
+          });
+        })
+        .addText((t) =>
+          t
+            .setPlaceholder("Regex, e.g. ^Focus time")
+            .setValue(rule.pattern)
+            .onChange(async (v) => {
+              rule.pattern = v;
+              updatePreview();
+              await this.save();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove Filter")
+            .onClick(async () => {
+              rules.splice(i, 1);
+              cal.filters = rules;
+              await this.save();
+              this.display();
+            })
+        );
+      previews.push(row.descEl);
+    });
+
+    new Setting(details).addButton((btn) =>
+      btn.setButtonText("Add Filter").onClick(async () => {
+        cal.filters = [...rules, { action: "exclude", field: "summary", pattern: "" }];
+        this.openFilters.add(cal.id);
+        await this.save();
+        this.display();
+      })
+    );
+
+    updatePreview();
+  }
+
+  /**
+   * Per-source insert template, overriding the global one when set.
+   */
+  private displaySourceTemplate(containerEl: HTMLElement, cal: CalendarSource) {
+    new Setting(containerEl)
+      .setClass("spcalendar-source-template")
+      .setDesc("Insert template for this calendar (empty uses the global template)")
+      .addTextArea((text) =>
+        text
+          .setPlaceholder(this.settings.eventTemplate || DEFAULT_EVENT_TEMPLATE)
+          .setValue(cal.template ?? "")
+          .onChange(async (value) => {
+            cal.template = value.trim() ? value : undefined;
+            await this.save();
+          })
+      );
+  }
+
+  /**
+   * Per-source override of the auto-refresh interval.
+   */
+  private displaySourceRefresh(containerEl: HTMLElement, cal: CalendarSource) {
+    new Setting(containerEl)
+      .setClass("spcalendar-source-refresh")
+      .setDesc("Refresh this calendar every … minutes. Leave empty to use the global interval, 0 to turn it off.")
+      .addText((t) =>
+        t
+          .setPlaceholder(String(this.settings.refreshInterval))
+          .setValue(cal.refreshInterval?.toString() ?? "")
+          .onChange(async (v) => {
+            const parsed = parseInt(v);
+            cal.refreshInterval = isNaN(parsed) ? undefined : Math.max(parsed, 0);
+            await this.save();
+          })
+      );
+  }
+
+  /**
+   * Credentials and custom headers for a URL feed.
+   */
+  private displayFeedAuth(containerEl: HTMLElement, cal: CalendarSource) {
+    const auth = cal.auth ?? "none";
+
+    const row = new Setting(containerEl)
+      .setClass("spcalendar-feed-auth")
+      .setDesc("Authentication for private feeds. webcal:// links are loaded over https://.")
+      .addDropdown((d) =>
+        d
+          .addOption("none", "No authentication")
+          .addOption("basic", "Basic (username / password)")
+          .addOption("bearer", "Bearer token")
+          .setValue(auth)
+          .onChange(async (v) => {
+            cal.auth = v as CalendarSource["auth"];
+            await this.save();
+            this.display(); // swap the credential fields
+          })
+      );
+
+    if (auth === "basic") {
+      row
+        .addText((t) =>
+          t
+            .setPlaceholder("Username")
+            .setValue(cal.username ?? "")
+            .onChange(async (v) => {
+              cal.username = v.trim();
+              await this.save();
+            })
+        )
+        .addText((t) => {
+          t.inputEl.type = "password";
+          t.setPlaceholder("Password")
+            .setValue(cal.password ?? "")
+            .onChange(async (v) => {
+              cal.password = v;
+              await this.save();
+            });
+        });
+    } else if (auth === "bearer") {
+      row.addText((t) => {
+        t.inputEl.type = "password";
+        t.setPlaceholder("Token")
+          .setValue(cal.token ?? "")
+          .onChange(async (v) => {
+            cal.token = v.trim();
+            await this.save();
+          });
+      });
+    }
+
+    row.addTextArea((t) =>
+      t
+        .setPlaceholder("Custom headers, one per line\nX-Api-Key: …")
+        .setValue(
+          Object.entries(cal.headers ?? {})
+            .map(([name, value]) => `${name}: ${value}`)
+            .join("\n")
+        )
+        .onChange(async (v) => {
+          const headers = parseHeaderLines(v);
+          cal.headers = Object.keys(headers).length ? headers : undefined;
+          await this.save();
+        })
+    );
+  }
+
+  /**
+   * Account fields and calendar picker shown under a CalDAV source.
+   */
+  private displayCalDavAccount(containerEl: HTMLElement, cal: CalendarSource) {
+    const found = this.discovered[cal.id] ?? [];
+
+    new Setting(containerEl)
+      .setClass("spcalendar-caldav-account")
+      .setDesc("CalDAV account. Use an app password where your server offers one.")
+      .addText((t) =>
+        t
+          .setPlaceholder("Username")
+          .setValue(cal.username ?? "")
+          .onChange(async (v) => {
+            cal.username = v.trim();
+            await this.save();
+          })
+      )
+      .addText((t) => {
+        t.inputEl.type = "password";
+        t.setPlaceholder("App password")
+          .setValue(cal.password ?? "")
+          .onChange(async (v) => {
+            cal.password = v;
+            await this.save();
+          });
+      })
+      .addDropdown((d) => {
+        d.addOption("", "All calendars");
+        for (const c of found) d.addOption(c.href, c.name);
+        if (cal.calendarHref && !found.some((c) => c.href === cal.calendarHref)) {
+          d.addOption(cal.calendarHref, cal.calendarHref);
+        }
+        d.setValue(cal.calendarHref ?? "").onChange(async (v) => {
+          cal.calendarHref = v || undefined;
+          await this.save();
+        });
+      })
+      .addButton((btn) =>
+        btn.setButtonText("Discover").onClick(async () => {
+          try {
+            const calendars = await this.plugin.calendar.getCalDavClient(cal).discover();
+            this.discovered[cal.id] = calendars;
+            new Notice(`Found ${calendars.length} calendar${calendars.length === 1 ? "" : "s"}.`);
+            this.display();
+          } catch (err: any) {
+            console.error("[OCE] CalDAV discovery failed:", err);
+            new Notice(`CalDAV discovery failed: ${err?.message || err}`);
+          }
+        })
+      );
+  }
 }
@@ -0,0 +1,150 @@
+import moment from "moment";
+import { labelTags } from "./eventRules";
+import type { CalendarEvent, ObsidianCalendarSettings } from "./types";
+
+/**
+ * Renders events into note text for click-to-add and the insert command.
+ *
+ * Placeholders: {{subject}}, {{start}}, {{end}}, {{date}}, {{time}},
+ * {{duration}}, {{location}}, {{calendar}}, {{description}}, {{organizer}},
+ * {{attendees}}, {{url}}, {{uid}}, {{status}}, {{labels}} and {{tags}}.
+ * start, end and date take a moment.js format: {{start:HH:mm}}.
+ *
+ * Sections: {{#location}}...{{/location}} is kept only when the field is not
+ * empty, {{^location}}...{{/location}} only when it is.
+ */
+
+export const DEFAULT_EVENT_TEMPLATE =
+  "- [ ] {{subject}} ({{time}}){{#location}} - {{location}}{{/location}}{{#tags}} {{tags}}{{/tags}}";
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "subject",
+  "start",
+  "end",
+  "date",
+  "time",
+  "duration",
+  "location",
+  "calendar",
+  "description",
+  "organizer",
+  "attendees",
+  "url",
+  "uid",
+  "status",
+  "labels",
+  "tags",
+] as const;
+
+type Placeholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+const SECTION_RE = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const PLACEHOLDER_RE = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+export function isTaskDone(e: CalendarEvent): boolean {
+  return e.status === "COMPLETED" || !!e.task?.completed || e.task?.percentComplete === 100;
+}
+
+/**
+ * Last moment of an event; all-day end dates are exclusive, so this is the
+ * start of the last day.
+ */
+function lastMoment(e: CalendarEvent): moment.Moment {
+  const end = moment(e.end || e.start);
+  return e.allDay && end.isAfter(moment(e.start)) ? end.subtract(1, "day") : end;
+}
+
+function formatDuration(e: CalendarEvent): string {
+  if (e.allDay) {
+    const days = Math.max(moment(e.end || e.start).diff(moment(e.start), "days"), 1);
+    return `${days}d`;
+  }
+  const minutes = Math.max(moment(e.end || e.start).diff(moment(e.start), "minutes"), 0);
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/**
+ * Value of a placeholder for an event ("" when the event has none).
+ */
+function fieldValue(
+  e: CalendarEvent,
+  name: Placeholder,
+  format: string | undefined,
+  settings: ObsidianCalendarSettings
+): string {
+  const dateFormat = format || (e.allDay ? "YYYY-MM-DD" : "h:mm A");
+  switch (name) {
+    case "subject": return e.subject ?? "";
+    case "start": return moment(e.start).format(dateFormat);
+    case "end": return lastMoment(e).format(dateFormat);
+    case "date": return moment(e.start).format(format || "YYYY-MM-DD");
+    case "time":
+      return e.allDay ? "All day" : `${moment(e.start).format("h:mm A")} - ${moment(e.end).format("h:mm A")}`;
+    case "duration": return formatDuration(e);
+    case "location": return e.location ?? "";
+    case "calendar": return e.sources?.map((s) => s.calendarName).join(", ") ?? e.calendarName ?? "";
+    case "description": return e.description?.trim() ?? "";
+    case "organizer": return e.organizer?.name || e.organizer?.email || "";
+    case "attendees":
+      return (e.attendees ?? [])
+        .map((a) => a.name || a.email)
+        .filter(Boolean)
+        .join(", ");
+    case "url": return e.url ?? "";
+    case "uid": return e.uid ?? "";
+    case "status": return e.status ?? "";
+    case "labels": return (e.labels ?? []).join(", ");
+    case "tags": return settings.labelsAsTags ? labelTags(e) : "";
+  }
+}
+
+function isPlaceholder(name: string): name is Placeholder {
+  return (TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name);
+}
+
+/**
+ * Fills a template for one event. Unknown placeholders are left as typed.
+ */
+export function renderEventTemplate(
+  template: string,
+  e: CalendarEvent,
+  settings: ObsidianCalendarSettings
+): string {
+  const value = (name: string, format?: string) =>
+    isPlaceholder(name) ? fieldValue(e, name, format, settings) : null;
+
+  // Repeat so sections nested inside kept sections are resolved too
+  let text = template;
+  for (let previous = ""; previous !== text; ) {
+    previous = text;
+    text = text.replace(SECTION_RE, (_, kind: string, name: string, body: string) =>
+      !!value(name) === (kind === "#") ? body : ""
+    );
+  }
+
+  return text.replace(PLACEHOLDER_RE, (match, name: string, format?: string) => value(name, format) ?? match);
+}
+
+/**
+ * The template for an event: its calendar's own template, or the default.
+ */
+export function templateFor(e: CalendarEvent, settings: ObsidianCalendarSettings): string {
+  const calendar = settings.calendars.find((c) => c.id === e.calendarId);
+  return calendar?.template?.trim() ? calendar.template : settings.eventTemplate || DEFAULT_EVENT_TEMPLATE;
+}
+
+/**
+ * Note text for an event. Tasks keep the Tasks plugin format with their due
+ * date; events use their template.
+ */
+export function formatEventForNote(e: CalendarEvent, settings: ObsidianCalendarSettings): string {
+  if (e.task) {
+    const tags = settings.labelsAsTags ? labelTags(e) : "";
+    const line = `- [${isTaskDone(e) ? "x" : " "}] ${e.subject} 📅 ${moment(e.start).format("YYYY-MM-DD")}`;
+    return tags ? `${line} ${tags}` : line;
+  }
+  return renderEventTemplate(templateFor(e, settings), e, settings);
+}
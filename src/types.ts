@@ -6,11 +6,59 @@
 export interface CalendarSource {
   id: string;
   name: string;
+  // Where the calendar comes from; sources saved before this field are URLs
+  type?: "url" | "vault" | "caldav";
+  // Feed URL, or the CalDAV server / calendar URL (type "caldav")
   url: string;
+  // Vault-relative path of an .ics file (type "vault")
+  path?: string;
+  // CalDAV account, or Basic auth credentials for a feed;
+  // use an app password where the server offers one
+  username?: string;
+  password?: string;
+  // Feed authentication (type "url"); sources saved before this field send none
+  auth?: "none" | "basic" | "bearer";
+  token?: string;
+  // Extra request headers for feeds, e.g. an API key
+  headers?: Record<string, string>;
+  // Discovered CalDAV calendar to load; empty loads every calendar of the account
+  calendarHref?: string;
+  // Auto-refresh interval in minutes; unset follows the global setting, 0 turns it off
+  refreshInterval?: number;
+  // Include/exclude rules applied to this source's events
+  filters?: FilterRule[];
+  // Template for inserting this source's events; empty uses eventTemplate
+  template?: string;
   color?: string;
   enabled: boolean;
 }
 
+/**
+ * Hides or keeps a source's events. Title, location, free/busy (TRANSP) and
+ * status are matched with a case-insensitive regular expression; duration
+ * takes a comparison in minutes like "<15" or ">=480".
+ */
+export interface FilterRule {
+  action: "include" | "exclude";
+  field: "summary" | "location" | "transparency" | "status" | "duration";
+  pattern: string;
+}
+
+/**
+ * Styles events across all calendars. Matched with a case-insensitive
+ * regular expression; rules are checked in order (see eventRules.ts).
+ */
+export interface EventRule {
+  field: "summary" | "location" | "category" | "organizer";
+  pattern: string;
+  // Card accent color; unset keeps the calendar color
+  color?: string;
+  // Lucide icon name shown before the title, e.g. "users"
+  icon?: string;
+  // Chip on the card, also added as a tag when inserting into notes
+  label?: string;
+}
+
 export interface ObsidianCalendarSettings {
   // Calendar sources
   calendars: CalendarSource[];
@@ -19,6 +67,30 @@ export interface ObsidianCalendarSettings {
   daysBefore: number;
   daysAhead: number;
 
+  // Minutes between automatic background refreshes (0 = off)
+  refreshInterval: number;
+
+  // Merge events that appear in several calendars (same UID and start)
+  mergeDuplicates: boolean;
+  // Calendar whose copy of a merged event is shown; unset uses the first in the list
+  mergeOwnerId?: string;
+
+  // Ordered coloring and labeling rules
+  eventRules: EventRule[];
+
+  // Add event labels as tags when inserting events into notes
+  labelsAsTags: boolean;
+
+  // Template for events inserted into notes (see templates.ts)
+  eventTemplate: string;
+
+  // Meeting notes created from events
+  meetingNoteFolder: string;
+  // File name, with the same placeholders as eventTemplate
+  meetingNoteName: string;
+  // Vault path of a template note for the body; empty uses a built-in one
+  meetingNoteTemplate: string;
+
   // Sort order of events in the view
   sortOrder: "asc" | "desc";
 
@@ -31,6 +103,9 @@ export interface ObsidianCalendarSettings {
   // The heading name under which events are added
   headingName: string;
 
+  // Keep a marker-delimited agenda of the day's events in daily notes
+  syncDailyAgenda: boolean;
+
   firstRun?: boolean;
 
   // Persisted map of calendar visibility states
@@ -40,20 +115,101 @@ export interface ObsidianCalendarSettings {
   collapsedDays?: Record<string, boolean>;
 }
 
+/**
+ * Organizer or attendee of an event (ORGANIZER / ATTENDEE properties).
+ */
+export interface EventPerson {
+  name?: string;
+  email?: string;
+  role?: string;
+  status?: string; // PARTSTAT, e.g. ACCEPTED | DECLINED | TENTATIVE
+}
+
+/**
+ * Task fields of a VTODO item. The shared fields (subject, status,
+ * description, ...) live on the CalendarEvent itself.
+ */
+export interface CalendarTask {
+  priority?: number; // 1 (highest) to 9 (lowest)
+  percentComplete?: number;
+  completed?: string; // ISO date-time of completion
+}
+
 /**
  * Calendar event structure parsed from an iCal feed.
  * Includes metadata linking it to a specific calendar source.
  */
 export interface CalendarEvent {
   id: string;
+  uid?: string;
   subject: string;
+  // ISO UTC date-times, or YYYY-MM-DD dates when allDay is set (end exclusive)
   start: string;
   end: string;
+  allDay?: boolean;
   location?: string;
+  description?: string;
+  url?: string;
+  organizer?: EventPerson;
+  attendees?: EventPerson[];
+  categories?: string[];
+  status?: string; // TENTATIVE | CONFIRMED | CANCELLED
+  transparency?: string; // OPAQUE | TRANSPARENT
+  class?: string; // PUBLIC | PRIVATE | CONFIDENTIAL
+  task?: CalendarTask; // Set for VTODO items, placed on their due date
+  recurring?: boolean; // Occurrence of a recurring series (shares its UID)
   raw?: any;
 
   // Added for multi-calendar support
   calendarId?: string;
   calendarName?: string;
   color?: string;
+  // Every calendar a merged event appears in, owner first (see mergeDuplicates)
+  sources?: EventSourceRef[];
+
+  // Set by event rules
+  accentColor?: string;
+  icon?: string;
+  labels?: string[];
+}
+
+/**
+ * A calendar a merged event was found in.
+ */
+export interface EventSourceRef {
+  calendarId: string;
+  calendarName: string;
+  color: string;
+}
+
+/**
+ * How the last load of a source ended.
+ */
+export type SourceStatus = "ok" | "http" | "parse" | "timeout" | "error";
+
+/**
+ * Per-source fetch result and parse diagnostics, refreshed on every fetch.
+ */
+export interface FeedDiagnostics {
+  status: SourceStatus;
+  // Events the source contributed (from the cache when stale)
+  eventCount: number;
+  // ISO time of the last successful load
+  lastSuccess?: string;
+  // Message of the failure, when status is not "ok"
+  error?: string;
+  // TZIDs that could not be resolved, mapped to the subjects of the events
+  // that use them. Times in these zones fall back to UTC.
+  unresolvedZones: Record<string, string[]>;
+  // Set when the source could not be loaded and cached events are shown:
+  // ISO time of the fetch the cached copy came from
+  staleSince?: string;
+}
+
+/**
+ * Inclusive time window used when fetching and expanding events.
+ */
+export interface EventRange {
+  start: Date;
+  end: Date;
 }
@@ -0,0 +1,184 @@
+import { MarkdownRenderChild, TFile } from "obsidian";
+import moment from "moment";
+import { getDateFromFile } from "obsidian-daily-notes-interface";
+import { parseAgendaOptions, resolveAgendaRange } from "../agenda";
+import type { AgendaOptions } from "../agenda";
+import type ObsidianCalendarPlugin from "../main";
+import { isEmptyQuery, matchesQuery, parseSearchQuery } from "../search";
+import type { CalendarEvent } from "../types";
+import { compareByTime, getEventDays, isFullDay } from "../utils/eventDays";
+
+export const AGENDA_BLOCK_LANGUAGE = "calendar-events";
+
+/**
+ * Live agenda rendered from a `calendar-events` code block. Re-renders when
+ * the plugin refreshes its calendars (see `refreshAgendaBlocks`).
+ */
+export class AgendaBlock extends MarkdownRenderChild {
+  // Bumped on every render, so a slow fetch can't overwrite a newer one
+  private generation = 0;
+
+  constructor(
+    containerEl: HTMLElement,
+    private plugin: ObsidianCalendarPlugin,
+    private source: string,
+    private sourcePath: string
+  ) {
+    super(containerEl);
+  }
+
+  onload() {
+    this.plugin.agendaBlocks.add(this);
+    this.render();
+  }
+
+  onunload() {
+    this.plugin.agendaBlocks.delete(this);
+  }
+
+  async render() {
+    const generation = ++this.generation;
+    const { options, errors } = parseAgendaOptions(this.source);
+
+    // "today" is the daily note's date when the block sits in one
+    const file = this.plugin.app.vault.getAbstractFileByPath(this.sourcePath);
+    const noteDate = file instanceof TFile ? getDateFromFile(file, "day") : null;
+    const range = resolveAgendaRange(options.range, noteDate ?? moment());
+    if (!range) errors.push(`Can't read range "${options.range}"`);
+
+    if (errors.length || !range) {
+      this.showMessage(errors.join("\n"), true);
+      return;
+    }
+
+    const enabled = this.plugin.settings.calendars?.filter((c) => c.enabled) ?? [];
+    if (!enabled.length) {
+      this.showMessage("No enabled calendars configured.", true);
+      return;
+    }
+    if (!this.containerEl.hasChildNodes()) this.showMessage("Loading events...");
+
+    const from = range.from.format("YYYY-MM-DD");
+    const to = range.to.format("YYYY-MM-DD");
+    const span = { start: range.from.toDate(), end: range.to.clone().endOf("day").toDate() };
+    let events: CalendarEvent[];
+    try {
+      // Reuses the last load of each source when it covers the block's days,
+      // so only days outside it cost a request
+      events = await this.plugin.calendar.fetchEvents({ ...span, reload: [] });
+    } catch (err: any) {
+      console.error("[OCE] Agenda block failed to load:", err);
+      if (generation === this.generation) this.showMessage(`Unable to load events: ${err?.message || err}`, true);
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const shown = this.select(events, options, from, to);
+    const root = this.containerEl;
+    root.empty();
+    root.addClass("spcalendar-agenda");
+
+    // A source that failed without a cached copy returned nothing
+    const failed = this.plugin.calendar.getFailedSources().map((c) => c.name);
+    if (failed.length || !this.plugin.calendar.coversRange(span)) {
+      const names = failed.length ? ` (${failed.join(", ")})` : "";
+      root.createDiv({
+        cls: "spcalendar-agenda-warning",
+        text: `Some calendars couldn't be loaded${names}; events may be missing.`,
+      });
+    }
+
+    if (!shown.length) {
+      root.createDiv({ cls: "spcalendar-agenda-empty", text: "No events." });
+      return;
+    }
+    if (options.layout === "table") this.renderTable(root, shown, from, to);
+    else this.renderList(root, shown, from, to);
+  }
+
+  /**
+   * Events of the block's calendars that match its filter and fall on its days.
+   */
+  private select(events: CalendarEvent[], options: AgendaOptions, from: string, to: string): CalendarEvent[] {
+    const wanted = options.calendars.map((c) => c.toLowerCase());
+    const query = parseSearchQuery(options.filter);
+
+    return events.filter((e) => {
+      if (wanted.length) {
+        const calendars = e.sources ?? [{ calendarId: e.calendarId ?? "", calendarName: e.calendarName ?? "" }];
+        const inCalendar = calendars.some(
+          (c) => wanted.includes(c.calendarId.toLowerCase()) || wanted.includes(c.calendarName.toLowerCase())
+        );
+        if (!inCalendar) return false;
+      }
+      if (!isEmptyQuery(query) && !matchesQuery(e, query)) return false;
+      return getEventDays(e).some((d) => d >= from && d <= to);
+    });
+  }
+
+  /**
+   * Days of the range an event is listed on.
+   */
+  private daysOf(e: CalendarEvent, from: string, to: string): string[] {
+    return getEventDays(e).filter((d) => d >= from && d <= to);
+  }
+
+  private renderList(root: HTMLElement, events: CalendarEvent[], from: string, to: string) {
+    const grouped: Record<string, CalendarEvent[]> = {};
+    for (const e of events) {
+      for (const day of this.daysOf(e, from, to)) (grouped[day] ??= []).push(e);
+    }
+
+    for (const day of Object.keys(grouped).sort()) {
+      const section = root.createDiv({ cls: "spcalendar-agenda-day" });
+      if (from !== to) section.createDiv({ cls: "spcalendar-agenda-date", text: moment(day).format("dddd, MMMM D") });
+
+      const list = section.createEl("ul");
+      for (const e of grouped[day].sort(compareByTime)) {
+        const item = list.createEl("li", { cls: "spcalendar-agenda-item" });
+        const dot = item.createSpan({ cls: "spcalendar-calendar-dot" });
+        dot.style.backgroundColor = e.accentColor || e.color || "#4A90E2";
+        item.createSpan({ cls: "spcalendar-agenda-time", text: formatTime(e, day) });
+        item.createSpan({ text: e.subject || "(no title)" });
+        if (e.location) item.createSpan({ cls: "spcalendar-agenda-location", text: e.location });
+      }
+    }
+  }
+
+  private renderTable(root: HTMLElement, events: CalendarEvent[], from: string, to: string) {
+    const table = root.createEl("table");
+    const head = table.createEl("thead").createEl("tr");
+    for (const label of ["Date", "Time", "Event", "Location", "Calendar"]) head.createEl("th", { text: label });
+
+    const body = table.createEl("tbody");
+    const rows = events.flatMap((e) => this.daysOf(e, from, to).map((day) => ({ e, day })));
+    rows.sort((a, b) => a.day.localeCompare(b.day) || compareByTime(a.e, b.e));
+    for (const { e, day } of rows) {
+      const row = body.createEl("tr");
+      row.createEl("td", { text: moment(day).format("ddd, MMM D") });
+      row.createEl("td", { text: formatTime(e, day) });
+      row.createEl("td", { text: e.subject || "(no title)" });
+      row.createEl("td", { text: e.location ?? "" });
+      row.createEl("td", {
+        text: e.sources?.map((s) => s.calendarName).join(", ") ?? e.calendarName ?? "",
+      });
+    }
+  }
+
+  private showMessage(message: string, isError = false) {
+    this.containerEl.empty();
+    this.containerEl.addClass("spcalendar-agenda");
+    this.containerEl.createDiv({
+      cls: isError ? "spcalendar-agenda-error" : "spcalendar-agenda-empty",
+      text: message,
+    });
+  }
+}
+
+function formatTime(e: CalendarEvent, day: string): string {
+  const days = getEventDays(e);
+  if (isFullDay(e) && days.length > 1) return `Day ${days.indexOf(day) + 1} of ${days.length}`;
+  if (e.allDay) return e.task ? "Due" : "All day";
+  if (e.task) return `Due ${moment(e.start).format("h:mm A")}`;
+  return `${moment(e.start).format("h:mm A")} – ${moment(e.end || e.start).format("h:mm A")}`;
+}
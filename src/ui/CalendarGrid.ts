@@ -0,0 +1,202 @@
+import { setIcon } from "obsidian";
+import moment from "moment";
+import type { CalendarEvent } from "../types";
+import { compareByTime, getEventDays, isFullDay } from "../utils/eventDays";
+
+/**
+ * Week timeline and month grid layouts of the calendar view. Both take the
+ * events the list would show (already narrowed by calendar toggles and the
+ * quick filter).
+ */
+
+// Height of one hour in the week timeline, in pixels
+const HOUR_HEIGHT = 40;
+// Shortest block drawn in the timeline, so short events stay readable
+const MIN_EVENT_MINUTES = 20;
+// Chips shown in a month cell before "+N more"
+const MONTH_CHIPS = 3;
+
+function groupByDay(events: CalendarEvent[], days: string[]): Record<string, CalendarEvent[]> {
+  const grouped: Record<string, CalendarEvent[]> = {};
+  for (const day of days) grouped[day] = [];
+  for (const e of events) {
+    for (const day of getEventDays(e)) grouped[day]?.push(e);
+  }
+  for (const day of days) grouped[day].sort((a, b) => compareByTime(a, b));
+  return grouped;
+}
+
+function dayClasses(day: string): string[] {
+  return day === moment().format("YYYY-MM-DD") ? ["is-today"] : [];
+}
+
+function describe(e: CalendarEvent): string {
+  const when = e.allDay
+    ? "All day"
+    : `${moment(e.start).format("ddd h:mm A")} → ${moment(e.end || e.start).format("h:mm A")}`;
+  const calendars = e.sources?.map((s) => s.calendarName).join(", ") ?? e.calendarName;
+  return [e.subject || "(no title)", when, e.location, calendars].filter(Boolean).join("\n");
+}
+
+/**
+ * Fills an event chip or timeline block: accent color, icon, time and title.
+ */
+function renderChip(el: HTMLElement, e: CalendarEvent, showTime: boolean) {
+  const color = e.accentColor || e.color;
+  if (color) el.style.borderLeftColor = color;
+  el.setAttr("title", describe(e));
+  if (e.icon) setIcon(el.createSpan({ cls: "spcalendar-event-icon" }), e.icon);
+  if (showTime) el.createSpan({ cls: "spcalendar-grid-time", text: moment(e.start).format("h:mm") });
+  el.createSpan({ cls: "spcalendar-grid-subject", text: e.subject || "(no title)" });
+}
+
+interface PlacedEvent {
+  event: CalendarEvent;
+  // Minutes from midnight, clipped to the day
+  start: number;
+  end: number;
+  column: number;
+  columns: number;
+}
+
+/**
+ * Lays out a day's timed events: overlapping events share the width of
+ * their cluster side by side, each taking the first free column.
+ */
+function layoutDay(events: CalendarEvent[], day: string): PlacedEvent[] {
+  const midnight = moment(day);
+  const placed = events
+    .map((event) => {
+      const start = Math.max(0, moment(event.start).diff(midnight, "minutes"));
+      const end = Math.min(1440, moment(event.end || event.start).diff(midnight, "minutes"));
+      return { event, start, end: Math.max(end, start + MIN_EVENT_MINUTES), column: 0, columns: 1 };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  let cluster: PlacedEvent[] = [];
+  let clusterEnd = -1;
+  let columnEnds: number[] = [];
+  const closeCluster = () => {
+    for (const p of cluster) p.columns = columnEnds.length;
+    cluster = [];
+    columnEnds = [];
+  };
+
+  for (const p of placed) {
+    if (cluster.length && p.start >= clusterEnd) closeCluster();
+    let column = columnEnds.findIndex((end) => end <= p.start);
+    if (column === -1) column = columnEnds.length;
+    columnEnds[column] = p.end;
+    p.column = column;
+    cluster.push(p);
+    clusterEnd = Math.max(clusterEnd, p.end);
+  }
+  closeCluster();
+  return placed;
+}
+
+/**
+ * Week timeline of the week containing `anchor` (YYYY-MM-DD): an all-day
+ * row and 24 hour rows, one column per day.
+ */
+export function renderWeekGrid(parent: HTMLElement, events: CalendarEvent[], anchor: string) {
+  const first = moment(anchor).startOf("week");
+  const days = Array.from({ length: 7 }, (_, i) => first.clone().add(i, "days").format("YYYY-MM-DD"));
+  const grouped = groupByDay(events, days);
+
+  const grid = parent.createDiv({ cls: "spcalendar-week" });
+  grid.createDiv({
+    cls: "spcalendar-grid-title",
+    text: `${first.format("MMM D")} – ${moment(days[6]).format("MMM D, YYYY")}`,
+  });
+
+  const head = grid.createDiv({ cls: "spcalendar-week-row" });
+  head.createDiv({ cls: "spcalendar-week-gutter" });
+  for (const day of days) {
+    const cell = head.createDiv({ cls: ["spcalendar-week-day", ...dayClasses(day)] });
+    cell.createDiv({ cls: "spcalendar-week-weekday", text: moment(day).format("ddd") });
+    cell.createDiv({ cls: "spcalendar-week-date", text: moment(day).format("D") });
+  }
+
+  const allDay = grid.createDiv({ cls: "spcalendar-week-row spcalendar-week-allday" });
+  allDay.createDiv({ cls: "spcalendar-week-gutter", text: "all-day" });
+  for (const day of days) {
+    const cell = allDay.createDiv({ cls: ["spcalendar-week-allday-cell", ...dayClasses(day)] });
+    for (const e of grouped[day].filter(isFullDay)) {
+      renderChip(cell.createDiv({ cls: "spcalendar-grid-event" }), e, false);
+    }
+  }
+
+  const body = grid.createDiv({ cls: "spcalendar-week-body" });
+  const gutter = body.createDiv({ cls: "spcalendar-week-gutter" });
+  for (let hour = 0; hour < 24; hour++) {
+    const label = gutter.createDiv({ cls: "spcalendar-week-hour", text: moment({ hour }).format("h A") });
+    label.style.height = `${HOUR_HEIGHT}px`;
+  }
+
+  let firstStart = 8 * 60;
+  for (const day of days) {
+    const column = body.createDiv({ cls: ["spcalendar-week-column", ...dayClasses(day)] });
+    column.style.height = `${24 * HOUR_HEIGHT}px`;
+
+    for (const p of layoutDay(grouped[day].filter((e) => !isFullDay(e)), day)) {
+      const block = column.createDiv({ cls: "spcalendar-grid-event spcalendar-week-event" });
+      block.style.top = `${(p.start / 60) * HOUR_HEIGHT}px`;
+      block.style.height = `${((p.end - p.start) / 60) * HOUR_HEIGHT}px`;
+      block.style.left = `${(p.column / p.columns) * 100}%`;
+      block.style.width = `${100 / p.columns}%`;
+      renderChip(block, p.event, true);
+      firstStart = Math.min(firstStart, p.start);
+    }
+
+    if (day === moment().format("YYYY-MM-DD")) {
+      const now = column.createDiv({ cls: "spcalendar-week-now" });
+      now.style.top = `${(moment().diff(moment(day), "minutes") / 60) * HOUR_HEIGHT}px`;
+    }
+  }
+
+  // Start scrolled to the first event, or 8 AM
+  body.scrollTop = Math.floor(firstStart / 60) * HOUR_HEIGHT;
+}
+
+/**
+ * Month grid of the month containing `anchor` (YYYY-MM-DD): one cell per
+ * day with a few event chips and "+N more".
+ */
+export function renderMonthGrid(parent: HTMLElement, events: CalendarEvent[], anchor: string) {
+  const month = moment(anchor);
+  const first = month.clone().startOf("month").startOf("week");
+  const last = month.clone().endOf("month").endOf("week");
+  const days: string[] = [];
+  for (const d = first.clone(); !d.isAfter(last); d.add(1, "day")) days.push(d.format("YYYY-MM-DD"));
+  const grouped = groupByDay(events, days);
+
+  const grid = parent.createDiv({ cls: "spcalendar-month" });
+  grid.createDiv({ cls: "spcalendar-grid-title", text: month.format("MMMM YYYY") });
+
+  const cells = grid.createDiv({ cls: "spcalendar-month-grid" });
+  for (let i = 0; i < 7; i++) {
+    cells.createDiv({ cls: "spcalendar-month-weekday", text: first.clone().add(i, "days").format("ddd") });
+  }
+
+  for (const day of days) {
+    const cls = ["spcalendar-month-cell", ...dayClasses(day)];
+    if (!moment(day).isSame(month, "month")) cls.push("is-other-month");
+    const cell = cells.createDiv({ cls });
+    cell.createDiv({ cls: "spcalendar-month-date", text: moment(day).format("D") });
+
+    const dayEvents = grouped[day];
+    const renderDayChip = (e: CalendarEvent) =>
+      renderChip(cell.createDiv({ cls: "spcalendar-grid-event" }), e, !isFullDay(e));
+    dayEvents.slice(0, MONTH_CHIPS).forEach(renderDayChip);
+
+    const hidden = dayEvents.slice(MONTH_CHIPS);
+    if (hidden.length) {
+      const more = cell.createDiv({ cls: "spcalendar-month-more", text: `+${hidden.length} more` });
+      more.addEventListener("click", () => {
+        more.remove();
+        hidden.forEach(renderDayChip);
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { ItemView, WorkspaceLeaf, Notice, setIcon } from "obsidian";
+import type { ViewStateResult } from "obsidian";
 import moment from "moment";
 import {
   getAllDailyNotes,
@@ -6,10 +7,23 @@ import {
   createDailyNote,
 } from "obsidian-daily-notes-interface";
 import type ObsidianCalendarPlugin from "../main";
-import type { CalendarEvent } from "../types";
+import { appendHighlighted, isEmptyQuery, matchesQuery, parseSearchQuery } from "../search";
+import { formatEventForNote, isTaskDone } from "../templates";
+import type { CalendarEvent, EventRange } from "../types";
+import { compareByTime, getEventDays, isFullDay } from "../utils/eventDays";
+import { renderMonthGrid, renderWeekGrid } from "./CalendarGrid";
+import { SourceStatusModal } from "./SourceStatusModal";
 
 export const VIEW_TYPE_SPCALENDAR = "spcalendar-view";
 
+type ViewMode = "list" | "week" | "month";
+
+const VIEW_MODES: Record<ViewMode, { icon: string; label: string }> = {
+  list: { icon: "list", label: "List" },
+  week: { icon: "calendar-days", label: "Week" },
+  month: { icon: "layout-grid", label: "Month" },
+};
+
 export class CalendarView extends ItemView {
   private visibleCalendars: Record<string, boolean> = {};
   private events: CalendarEvent[] = [];
@@ -17,6 +31,19 @@ export class CalendarView extends ItemView {
   private lastUpdated: Date | null = null;
   private updateTimer: number | null = null;
   private collapsedDays: Record<string, boolean> = {};
+  private renderedSignature = "";
+  // Quick filter text; kept across re-renders and refreshes
+  private searchText = "";
+  private searchTimer: number | null = null;
+  // Caret position to restore when a render was triggered by typing
+  private searchSelection: number | null = null;
+  // Layout of this leaf, saved with the workspace
+  private mode: ViewMode = "list";
+  // Day (YYYY-MM-DD) the shown range is built around; null follows today
+  private anchor: string | null = null;
+  // Bumped on every range load, so a slow response for a range the user
+  // already left can't overwrite the current one
+  private loadGeneration = 0;
 
   constructor(leaf: WorkspaceLeaf, plugin: ObsidianCalendarPlugin) {
     super(leaf);
@@ -35,9 +62,23 @@ export class CalendarView extends ItemView {
     return "calendar-range";
   }
 
+  getState(): Record<string, unknown> {
+    return { ...super.getState(), mode: this.mode };
+  }
+
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const mode = (state as { mode?: unknown } | null)?.mode;
+    if (typeof mode === "string" && mode in VIEW_MODES && mode !== this.mode) {
+      this.mode = mode as ViewMode;
+      if (this.lastUpdated) await this.loadRange();
+    }
+    await super.setState(state, result);
+  }
+
   setEvents(events: CalendarEvent[] | null | undefined) {
     this.events = Array.isArray(events) ? events : [];
     this.lastUpdated = new Date();
+    this.renderedSignature = this.signatureOf(this.events);
   
     // Sync visible calendar states
     this.visibleCalendars = { ...this.plugin.settings.visibleCalendars };
@@ -58,6 +99,114 @@ export class CalendarView extends ItemView {
   }
   
 
+  /**
+   * Re-renders the current events, e.g. after a meeting note was created.
+   */
+  redraw() {
+    this.render();
+  }
+
+  /**
+   * Applies events from a background refresh. Skips the re-render when
+   * nothing changed, so scroll position and open menus are kept.
+   */
+  updateEvents(events: CalendarEvent[]) {
+    if (this.signatureOf(events) === this.renderedSignature) {
+      this.lastUpdated = new Date();
+      return;
+    }
+    this.setEvents(events);
+  }
+
+  /**
+   * Fingerprint of what a render shows: the events (without their raw
+   * components) and each source's status, which drives the badges.
+   */
+  private signatureOf(events: CalendarEvent[]): string {
+    const statuses = (this.plugin.settings.calendars ?? []).map((c) => {
+      const diag = this.plugin.calendar?.diagnostics[c.id];
+      return [c.id, diag?.status, diag?.staleSince];
+    });
+    return JSON.stringify([statuses, events], (key, value) => (key === "raw" ? undefined : value));
+  }
+
+  /**
+   * Days (YYYY-MM-DD) the view shows: daysBefore/daysAhead around the anchor
+   * in list mode, or the anchor's week or month in the grid modes.
+   */
+  private getVisibleDays(): { from: string; to: string } {
+    const anchor = this.anchor ? moment(this.anchor) : moment();
+    let from: moment.Moment;
+    let to: moment.Moment;
+    if (this.mode === "week") {
+      from = anchor.clone().startOf("week");
+      to = anchor.clone().endOf("week");
+    } else if (this.mode === "month") {
+      from = anchor.clone().startOf("month").startOf("week");
+      to = anchor.clone().endOf("month").endOf("week");
+    } else {
+      const { daysBefore = 0, daysAhead = 7 } = this.plugin.settings;
+      from = anchor.clone().subtract(daysBefore, "days");
+      to = anchor.clone().add(daysAhead, "days");
+    }
+    return { from: from.format("YYYY-MM-DD"), to: to.format("YYYY-MM-DD") };
+  }
+
+  /**
+   * Window to fetch for what the view shows, from the start of its first
+   * day to the end of its last.
+   */
+  getRange(): EventRange {
+    const { from, to } = this.getVisibleDays();
+    return { start: moment(from).toDate(), end: moment(to).endOf("day").toDate() };
+  }
+
+  /**
+   * Moves the shown range to the one around `anchor` (null for today).
+   */
+  private async navigate(anchor: string | null) {
+    this.anchor = anchor;
+    await this.loadRange();
+  }
+
+  /**
+   * Moves one page back or forward: a list window, a week or a month.
+   */
+  private async step(direction: 1 | -1) {
+    const anchor = this.anchor ? moment(this.anchor) : moment();
+    if (this.mode === "week") anchor.add(direction, "week");
+    else if (this.mode === "month") anchor.add(direction, "month");
+    else {
+      const { daysBefore = 0, daysAhead = 7 } = this.plugin.settings;
+      anchor.add(direction * (daysBefore + daysAhead + 1), "days");
+    }
+    const day = anchor.format("YYYY-MM-DD");
+    await this.navigate(day === moment().format("YYYY-MM-DD") ? null : day);
+  }
+
+  /**
+   * Loads the events of the shown range, after navigating or switching mode.
+   */
+  private async loadRange() {
+    const generation = ++this.loadGeneration;
+    const enabled = this.plugin.settings.calendars?.filter((c) => c.enabled) ?? [];
+    if (!enabled.length) {
+      this.setEvents([]);
+      return;
+    }
+
+    try {
+      const events = await this.plugin.calendar.fetchEvents(this.getRange());
+      if (generation !== this.loadGeneration) return;
+      this.setEvents(events);
+    } catch (err: any) {
+      if (generation !== this.loadGeneration) return;
+      console.error("[OCE] Could not load the selected range:", err);
+      new Notice(`Error loading events: ${err?.message || err}`);
+      this.setEvents([]);
+    }
+  }
+
   showLoading(message = "Loading calendar events...") {
     const container = this.containerEl;
     container.empty();
@@ -85,7 +234,8 @@ export class CalendarView extends ItemView {
 
     // Calendar visibility toggles
     const enabledCalendars = this.plugin.settings.calendars?.filter((c) => c.enabled) ?? [];
-    if (enabledCalendars.length > 1) {
+    const failedIds = new Set(this.plugin.calendar?.getFailedSources().map((c) => c.id) ?? []);
+    if (enabledCalendars.length > 1 || failedIds.size > 0) {
       const toggleBar = wrapper.createDiv({ cls: "spcalendar-togglebar" });
       toggleBar.style.display = "flex";
       toggleBar.style.flexWrap = "wrap";
@@ -107,6 +257,18 @@ export class CalendarView extends ItemView {
           ? cal.color || "var(--interactive-accent)"
           : "var(--background-secondary)";
         toggle.style.color = isVisible ? "#fff" : "var(--text-muted)";
+
+        // Warning badge for a source whose last load failed
+        if (failedIds.has(cal.id)) {
+          const diag = this.plugin.calendar.diagnostics[cal.id];
+          const badge = toggle.createSpan({ cls: "spcalendar-toggle-badge" });
+          setIcon(badge, "alert-triangle");
+          badge.setAttr("title", diag.error ?? "Failed to load");
+          badge.addEventListener("click", (evt) => {
+            evt.stopPropagation();
+            new SourceStatusModal(this.app, cal, diag, () => this.plugin.openSettingsTab()).open();
+          });
+        }
     
         toggle.onclick = async () => {
           // Toggle visibility and persist immediately
@@ -120,6 +282,46 @@ export class CalendarView extends ItemView {
     
 
 
+    // SEARCH ---------------------------------------------------------
+    const query = parseSearchQuery(this.searchText);
+    const searching = !isEmptyQuery(query);
+    const searchRow = wrapper.createDiv({ cls: "spcalendar-search" });
+    setIcon(searchRow.createSpan({ cls: "spcalendar-icon" }), "search");
+    const searchInput = searchRow.createEl("input", {
+      cls: "spcalendar-search-input",
+      attr: {
+        type: "text",
+        placeholder: "Filter events (cal:Work, loc:room)",
+        "aria-label": "Filter events",
+      },
+    });
+    searchInput.value = this.searchText;
+    const matchCount = searchRow.createSpan({ cls: "spcalendar-search-count" });
+
+    searchInput.addEventListener("input", () => {
+      this.searchText = searchInput.value;
+      if (this.searchTimer) window.clearTimeout(this.searchTimer);
+      this.searchTimer = window.setTimeout(() => {
+        this.searchTimer = null;
+        this.searchSelection = searchInput.selectionStart ?? searchInput.value.length;
+        this.render();
+      }, 150);
+    });
+    searchInput.addEventListener("keydown", (evt) => {
+      if (evt.key !== "Escape" || !this.searchText) return;
+      evt.stopPropagation();
+      this.searchText = "";
+      this.searchSelection = 0;
+      this.render();
+    });
+
+    if (this.searchSelection !== null) {
+      searchInput.focus();
+      searchInput.setSelectionRange(this.searchSelection, this.searchSelection);
+    }
+    const fromSearch = this.searchSelection !== null;
+    this.searchSelection = null;
+
     // Left: Title + Sort
     const leftSection = header.createDiv({ cls: "spcalendar-header-left" });
     leftSection.createSpan({ text: "Calendar Events" });
@@ -142,7 +344,7 @@ export class CalendarView extends ItemView {
         sortIndicator.classList.toggle("rotated", newOrder === "desc");
 
         new Notice(`Sort order set to ${newOrder.toUpperCase()}.`);
-        const events = await this.plugin.calendar.fetchEvents();
+        const events = await this.plugin.calendar.fetchEvents(this.getRange());
         this.setEvents(events);
       } catch (err) {
         console.error("Error toggling sort:", err);
@@ -150,9 +352,25 @@ export class CalendarView extends ItemView {
       }
     });
 
-    // Right: Refresh + Settings
+    // Right: Mode + Refresh + Settings
     const rightSection = header.createDiv({ cls: "spcalendar-header-right" });
 
+    const modeSwitch = rightSection.createDiv({ cls: "spcalendar-mode-switch" });
+    for (const mode of Object.keys(VIEW_MODES) as ViewMode[]) {
+      const { icon, label } = VIEW_MODES[mode];
+      const btn = modeSwitch.createEl("button", {
+        cls: `spcalendar-mode-btn${mode === this.mode ? " is-active" : ""}`,
+        attr: { "aria-label": label, title: label },
+      });
+      setIcon(btn, icon);
+      btn.addEventListener("click", () => {
+        if (mode === this.mode) return;
+        this.mode = mode;
+        this.app.workspace.requestSaveLayout();
+        this.loadRange();
+      });
+    }
+
     const refreshBtn = rightSection.createEl("button", {
       cls: "spcalendar-refresh-btn",
       attr: { "aria-label": "Refresh Calendar Events" },
@@ -174,21 +392,29 @@ export class CalendarView extends ItemView {
         this.showLoading("Refreshing events...");
         new Notice("Refreshing calendar...");
 
-        const events = await this.plugin.calendar.fetchEvents();
+        const events = await this.plugin.calendar.fetchEvents(this.getRange());
         this.setEvents(events);
-        new Notice("Calendar refreshed.");
-      } catch (err) {
+        this.plugin.refreshAgendaBlocks();
+
+        const failed = this.plugin.calendar.getFailedSources();
+        new Notice(
+          failed.length
+            ? `Calendar refreshed. ${failed.length} calendar${failed.length > 1 ? "s" : ""} failed to load.`
+            : "Calendar refreshed."
+        );
+      } catch (err: any) {
         console.error("Error refreshing calendar:", err);
-        new Notice("Error refreshing events.");
+        new Notice(`Error refreshing events: ${err?.message || err}`);
         this.setEvents([]);
       }
     });
 
-    // Collapse/Expand All button
+    // Collapse/Expand All button (list mode only)
     const toggleCollapseBtn = rightSection.createEl("button", {
       cls: "spcalendar-collapseall-btn",
       attr: { "aria-label": "Collapse or Expand All Days" },
     });
+    toggleCollapseBtn.toggle(this.mode === "list");
     
     // Set initial icon based on state
     const allCollapsed = Object.values(this.collapsedDays).length > 0 &&
@@ -246,20 +472,50 @@ export class CalendarView extends ItemView {
 
     if (calendarsConfigured) {
       const rangeContainer = wrapper.createDiv({ cls: "spcalendar-range" });
-      const { daysBefore = 0, daysAhead = 7 } = this.plugin.settings;
-      const start = new Date();
-      start.setDate(start.getDate() - daysBefore);
-      const end = new Date();
-      end.setDate(end.getDate() + daysAhead);
+      const { from, to } = this.getVisibleDays();
+
+      // Previous / Today / Next and jump to a date
+      const nav = rangeContainer.createDiv({ cls: "spcalendar-nav" });
+      const prevBtn = nav.createEl("button", {
+        cls: "spcalendar-nav-btn",
+        attr: { "aria-label": "Previous", title: "Previous" },
+      });
+      setIcon(prevBtn, "chevron-left");
+      prevBtn.addEventListener("click", () => this.step(-1));
+
+      const todayBtn = nav.createEl("button", { cls: "spcalendar-nav-today", text: "Today" });
+      todayBtn.toggleClass("is-active", this.anchor === null);
+      todayBtn.addEventListener("click", () => this.navigate(null));
+
+      const nextBtn = nav.createEl("button", {
+        cls: "spcalendar-nav-btn",
+        attr: { "aria-label": "Next", title: "Next" },
+      });
+      setIcon(nextBtn, "chevron-right");
+      nextBtn.addEventListener("click", () => this.step(1));
+
+      const datePicker = nav.createEl("input", {
+        cls: "spcalendar-nav-date",
+        attr: { type: "date", "aria-label": "Jump to date", title: "Jump to date" },
+      });
+      datePicker.value = this.anchor ?? moment().format("YYYY-MM-DD");
+      datePicker.addEventListener("change", () => {
+        if (!datePicker.value) return;
+        const today = moment().format("YYYY-MM-DD");
+        this.navigate(datePicker.value === today ? null : datePicker.value);
+      });
 
       const formatter = new Intl.DateTimeFormat(undefined, {
         month: "short",
         day: "numeric",
         year: "numeric",
       });
-      rangeContainer.setText(
-        `Showing events from ${formatter.format(start)} → ${formatter.format(end)}`
-      );
+      rangeContainer.createDiv({
+        cls: "spcalendar-range-label",
+        text: `Showing events from ${formatter.format(moment(from).toDate())} → ${formatter.format(
+          moment(to).toDate()
+        )}`,
+      });
 
       if (this.lastUpdated) {
         const updatedDiv = wrapper.createDiv({ cls: "spcalendar-updated" });
@@ -294,6 +550,18 @@ export class CalendarView extends ItemView {
         this.updateTimer = window.setInterval(updateLabel, 60000);
       }
 
+      // Sources that could not be reached and are shown from the offline cache
+      for (const cal of enabledCalendars) {
+        const diag = this.plugin.calendar?.diagnostics[cal.id];
+        if (!diag?.staleSince) continue;
+
+        const staleDiv = wrapper.createDiv({ cls: "spcalendar-stale" });
+        setIcon(staleDiv.createSpan({ cls: "spcalendar-stale-icon" }), "wifi-off");
+        staleDiv.createSpan({
+          text: `${cal.name}: offline, stale since ${moment(diag.staleSince).format("MMM D, h:mm A")}`,
+        });
+        if (diag.error) staleDiv.setAttr("title", diag.error);
+      }
     }
 
     // EMPTY STATE ---------------------------------------------------
@@ -318,15 +586,42 @@ export class CalendarView extends ItemView {
     }
 
     // GROUP BY DAY ---------------------------------------------------
+    // Multi-day events are listed on every visible day they span
+    const { from: firstVisible, to: lastVisible } = this.getVisibleDays();
+
+    const shown = this.events.filter(
+      (ev) => ev?.start && this.isEventVisible(ev) && (!searching || matchesQuery(ev, query))
+    );
+    const matched = shown.length;
+
+    if (searching) {
+      matchCount.setText(`${matched} match${matched === 1 ? "" : "es"}`);
+      if (!matched) {
+        const empty = wrapper.createDiv({ cls: "spcalendar-empty" });
+        empty.style.textAlign = "center";
+        empty.style.padding = "48px";
+        empty.createEl("p", { text: `No events match "${this.searchText.trim()}".` });
+        return;
+      }
+    }
+
+    // WEEK / MONTH GRID ----------------------------------------------
+    if (this.mode !== "list") {
+      const anchor = this.anchor ?? moment().format("YYYY-MM-DD");
+      if (this.mode === "week") renderWeekGrid(wrapper, shown, anchor);
+      else renderMonthGrid(wrapper, shown, anchor);
+      return;
+    }
+
     const grouped: Record<string, CalendarEvent[]> = {};
-    for (const ev of this.events) {
-      if (ev.calendarId && this.visibleCalendars[ev.calendarId] === false) continue;    
-      if (!ev?.start) continue;
-      const day = moment(ev.start).isValid()
-        ? moment(ev.start).format("YYYY-MM-DD")
-        : "unknown";
-      if (!grouped[day]) grouped[day] = [];
-      grouped[day].push(ev);
+    for (const ev of shown) {
+      const spanned = getEventDays(ev);
+      const visibleDays = spanned.filter((d) => d >= firstVisible && d <= lastVisible);
+      const days = visibleDays.length ? visibleDays : spanned.slice(0, 1);
+      for (const day of days) {
+        if (!grouped[day]) grouped[day] = [];
+        grouped[day].push(ev);
+      }
     }
 
     const sortOrder = this.plugin.settings.sortOrder === "asc" ? 1 : -1;
@@ -336,7 +631,8 @@ export class CalendarView extends ItemView {
       .filter(Boolean)
       .sort((a, b) => a.localeCompare(b) * sortOrder);
 
-    if (this.plugin.settings.pinToday) {
+    // Only pin today while it is inside the shown range
+    if (this.plugin.settings.pinToday && todayKey >= firstVisible && todayKey <= lastVisible) {
       const idx = sortedDays.indexOf(todayKey);
       if (idx > -1) sortedDays.splice(idx, 1);
       sortedDays = [todayKey, ...sortedDays];
@@ -345,10 +641,10 @@ export class CalendarView extends ItemView {
     let todayElement: HTMLElement | null = null;
 
     // RENDER DAYS ---------------------------------------------------
+    const noteIndex = this.plugin.meetingNotes.buildIndex();
     for (const day of sortedDays) {
-      const eventsForDay = (grouped[day] ?? []).sort(
-        (a, b) => a.start.localeCompare(b.start) * sortOrder
-      );
+      // All-day and continuing events first, then by start time
+      const eventsForDay = (grouped[day] ?? []).sort((a, b) => compareByTime(a, b, sortOrder));
     
       const isToday = day === todayKey;
       const dayContainer = wrapper.createDiv({
@@ -398,19 +694,37 @@ export class CalendarView extends ItemView {
     
       for (const e of eventsForDay) {
         const card = eventContainer.createDiv({ cls: "spcalendar-event" });
-        if (e.color) card.style.borderLeft = `4px solid ${e.color}`;
-        card.createEl("div", {
-          text: e.subject || "(no title)",
-          cls: "spcalendar-event-title",
-        });
+        const accent = e.accentColor || e.color;
+        if (accent) card.style.borderLeft = `4px solid ${accent}`;
+        const title = card.createEl("div", { cls: "spcalendar-event-title" });
+        if (e.icon) setIcon(title.createSpan({ cls: "spcalendar-event-icon" }), e.icon);
+
+        // Tasks (VTODO) get a read-only checkbox reflecting their status
+        if (e.task) {
+          card.classList.add("spcalendar-task");
+          const done = isTaskDone(e);
+          if (done) card.classList.add("is-completed");
+          title.createEl("input", {
+            cls: "task-list-item-checkbox spcalendar-task-checkbox",
+            attr: { type: "checkbox", disabled: true, ...(done ? { checked: true } : {}) },
+          });
+        }
+        appendHighlighted(title.createSpan(), e.subject || "(no title)", query.terms);
+
+        // Label chips from event rules
+        if (e.labels?.length) {
+          const chips = card.createDiv({ cls: "spcalendar-labels" });
+          for (const label of e.labels) {
+            const chip = chips.createSpan({ cls: "spcalendar-label", text: label });
+            if (e.accentColor) chip.style.borderColor = e.accentColor;
+          }
+        }
     
         const timeRow = card.createDiv({ cls: "spcalendar-row" });
         const timeIcon = timeRow.createSpan({ cls: "spcalendar-icon" });
-        setIcon(timeIcon, "clock");
+        setIcon(timeIcon, e.task ? "calendar-check" : "clock");
         timeRow.createSpan({
-          text: `${moment(e.start).format("h:mm A")} → ${moment(e.end).format(
-            "h:mm A"
-          )}`,
+          text: this.formatEventTime(e, day),
           cls: "spcalendar-time-text",
         });
     
@@ -418,24 +732,32 @@ export class CalendarView extends ItemView {
           const locRow = card.createDiv({ cls: "spcalendar-row" });
           const locIcon = locRow.createSpan({ cls: "spcalendar-icon" });
           setIcon(locIcon, "map-pin");
-          locRow.createSpan({
-            text: e.location,
-            cls: "spcalendar-location-text",
-          });
+          appendHighlighted(
+            locRow.createSpan({ cls: "spcalendar-location-text" }),
+            e.location,
+            [...query.terms, ...query.locations]
+          );
         }
     
-        // Optional calendar label
+        // Optional calendar label, with one dot per calendar for merged events
         if (e.calendarName) {
           const source = card.createDiv({ cls: "spcalendar-row" });
-          const dot = source.createSpan();
-          dot.style.width = "10px";
-          dot.style.height = "10px";
-          dot.style.borderRadius = "50%";
-          dot.style.backgroundColor = e.color || "#4A90E2";
-          source.createSpan({
-            text: e.calendarName,
-            cls: "spcalendar-calendar-name",
-          });
+          const calendars = e.sources ?? [
+            { calendarId: e.calendarId ?? "", calendarName: e.calendarName, color: e.color ?? "" },
+          ];
+          for (const cal of calendars) {
+            const dot = source.createSpan({ cls: "spcalendar-calendar-dot" });
+            dot.style.width = "10px";
+            dot.style.height = "10px";
+            dot.style.borderRadius = "50%";
+            dot.style.backgroundColor = cal.color || "#4A90E2";
+            dot.setAttr("title", cal.calendarName);
+          }
+          appendHighlighted(
+            source.createSpan({ cls: "spcalendar-calendar-name" }),
+            calendars.map((c) => c.calendarName).join(", "),
+            [...query.terms, ...query.calendars]
+          );
         }
     
         const addBtn = card.createEl("button", {
@@ -450,23 +772,68 @@ export class CalendarView extends ItemView {
           await this.addEventToDailyNote(e);
         });
     
+        // Meeting note: always shown once the note exists, otherwise on hover
+        const note = e.task ? null : this.plugin.meetingNotes.findNote(e, noteIndex);
+        const noteBtn = e.task
+          ? null
+          : card.createEl("button", {
+              cls: `spcalendar-note-btn${note ? " has-note" : " hidden"}`,
+              attr: { "aria-label": note ? "Open Meeting Note" : "Create Meeting Note" },
+            });
+        if (noteBtn) {
+          setIcon(noteBtn, note ? "file-check" : "file-text");
+          noteBtn.setAttr("title", note ? `Open ${note.basename}` : "Create Meeting Note");
+          noteBtn.addEventListener("click", async (ev) => {
+            ev.stopPropagation();
+            await this.plugin.openMeetingNote(e);
+          });
+        }
+    
         card.addEventListener("mouseenter", () => {
           addBtn.classList.remove("hidden");
+          if (!note) noteBtn?.classList.remove("hidden");
         });
         card.addEventListener("mouseleave", () => {
           addBtn.classList.add("hidden");
+          if (!note) noteBtn?.classList.add("hidden");
         });
       }
     }
     
 
-    if (todayElement) {
+    // Don't scroll away from the search field while typing
+    if (todayElement && !fromSearch) {
       setTimeout(() => {
         todayElement.scrollIntoView({ behavior: "smooth", block: "start" });
       }, 250);
     }
   }
 
+  /**
+   * Time label for a card: clock times, "All day", or "Day 2 of 3".
+   */
+  private formatEventTime(e: CalendarEvent, day: string): string {
+    if (e.task) {
+      const parts = [e.allDay ? "Due" : `Due ${moment(e.start).format("h:mm A")}`];
+      if (e.task.priority) parts.push(`Priority ${e.task.priority}`);
+      if (e.task.percentComplete) parts.push(`${e.task.percentComplete}%`);
+      return parts.join(" · ");
+    }
+
+    const days = getEventDays(e);
+    if (isFullDay(e) && days.length > 1) return `Day ${days.indexOf(day) + 1} of ${days.length}`;
+    if (e.allDay) return "All day";
+    return `${moment(e.start).format("h:mm A")} → ${moment(e.end).format("h:mm A")}`;
+  }
+
+  /**
+   * Hidden only when every calendar the event belongs to is toggled off.
+   */
+  private isEventVisible(e: CalendarEvent): boolean {
+    const ids = e.sources?.map((s) => s.calendarId) ?? (e.calendarId ? [e.calendarId] : []);
+    return !ids.length || ids.some((id) => this.visibleCalendars[id] !== false);
+  }
+
   // Add event to daily note
   private async addEventToDailyNote(event: CalendarEvent) {
     const app = this.plugin.app;
@@ -481,11 +848,7 @@ export class CalendarView extends ItemView {
       }
 
       const content = await app.vault.read(dailyNote);
-      const newTask = `- [ ] ${event.subject} (${moment(event.start).format(
-        "h:mm A"
-      )} - ${moment(event.end).format("h:mm A")})${
-        event.location ? ` - ${event.location}` : ""
-      }`;
+      const line = formatEventForNote(event, this.plugin.settings);
 
       let updated = content.trim();
       if (this.plugin.settings.addUnderHeading) {
@@ -494,17 +857,17 @@ export class CalendarView extends ItemView {
         if (headingRegex.test(content)) {
           const lines = content.split("\n");
           const index = lines.findIndex((line) => headingRegex.test(line));
-          lines.splice(index + 1, 0, "", newTask);
+          lines.splice(index + 1, 0, "", line);
           updated = lines.join("\n");
         } else {
-          updated += `\n\n${heading}\n\n${newTask}`;
+          updated += `\n\n${heading}\n\n${line}`;
         }
       } else {
-        updated += `\n${newTask}`;
+        updated += `\n${line}`;
       }
 
       await app.vault.modify(dailyNote, updated);
-      new Notice(`Added to ${dailyNote.basename} as a task.`);
+      new Notice(`Added to ${dailyNote.basename}.`);
     } catch (err) {
       console.error("Failed to add event to daily note:", err);
       new Notice("Error adding event to daily note.");
@@ -0,0 +1,68 @@
+import { App, Modal, Setting } from "obsidian";
+import moment from "moment";
+
+// Longest range the insert command accepts, to keep notes readable
+const MAX_RANGE_DAYS = 62;
+
+/**
+ * Asks for a day, or a from/to range, to insert events for.
+ */
+export class DatePickerModal extends Modal {
+  private from: string;
+  private to: string;
+
+  constructor(
+    app: App,
+    private range: boolean,
+    initial: moment.Moment,
+    private onChoose: (from: moment.Moment, to: moment.Moment) => void
+  ) {
+    super(app);
+    this.from = initial.format("YYYY-MM-DD");
+    this.to = range ? initial.clone().add(6, "days").format("YYYY-MM-DD") : this.from;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    this.titleEl.setText(this.range ? "Insert events for a date range" : "Insert events for a date");
+
+    const error = contentEl.createEl("p", { cls: "spcalendar-status-error" });
+    error.hide();
+
+    const dateInput = (name: string, value: string, onChange: (value: string) => void) =>
+      new Setting(contentEl).setName(name).addText((text) => {
+        text.inputEl.type = "date";
+        text.setValue(value).onChange(onChange);
+        text.inputEl.addEventListener("keydown", (ev) => {
+          if (ev.key === "Enter") submit();
+        });
+      });
+
+    dateInput(this.range ? "From" : "Date", this.from, (value) => (this.from = value));
+    if (this.range) dateInput("To", this.to, (value) => (this.to = value));
+
+    const submit = () => {
+      const from = moment(this.from, "YYYY-MM-DD", true);
+      const to = this.range ? moment(this.to, "YYYY-MM-DD", true) : from.clone();
+      let message = "";
+      if (!from.isValid() || !to.isValid()) message = "Choose a valid date.";
+      else if (to.isBefore(from)) message = "The end date is before the start date.";
+      else if (to.diff(from, "days") >= MAX_RANGE_DAYS) message = `Choose at most ${MAX_RANGE_DAYS} days.`;
+      if (message) {
+        error.setText(message);
+        error.show();
+        return;
+      }
+      this.close();
+      this.onChoose(from, to);
+    };
+
+    new Setting(contentEl)
+      .addButton((btn) => btn.setButtonText("Cancel").onClick(() => this.close()))
+      .addButton((btn) => btn.setButtonText("Insert").setCta().onClick(submit));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
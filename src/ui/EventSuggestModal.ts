@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import moment from "moment";
+import type { CalendarEvent } from "../types";
+
+/**
+ * Fuzzy picker over events, e.g. to choose the meeting to write a note for.
+ */
+export class EventSuggestModal extends FuzzySuggestModal<CalendarEvent> {
+  constructor(
+    app: App,
+    private events: CalendarEvent[],
+    private onChoose: (event: CalendarEvent) => void
+  ) {
+    super(app);
+    this.setPlaceholder("Choose an event");
+  }
+
+  getItems(): CalendarEvent[] {
+    return this.events;
+  }
+
+  getItemText(e: CalendarEvent): string {
+    const when = e.allDay ? moment(e.start).format("ddd, MMM D") : moment(e.start).format("ddd, MMM D h:mm A");
+    return `${when} — ${e.subject || "(no title)"}${e.calendarName ? ` (${e.calendarName})` : ""}`;
+  }
+
+  onChooseItem(e: CalendarEvent) {
+    this.onChoose(e);
+  }
+}
@@ -0,0 +1,61 @@
+import { App, Modal, Setting } from "obsidian";
+import moment from "moment";
+import type { CalendarSource, FeedDiagnostics, SourceStatus } from "../types";
+
+const STATUS_LABELS: Record<SourceStatus, string> = {
+  ok: "OK",
+  http: "HTTP error",
+  parse: "Parse error",
+  timeout: "Timed out",
+  error: "Error",
+};
+
+/**
+ * Shows the result of the last load of a calendar source.
+ */
+export class SourceStatusModal extends Modal {
+  constructor(
+    app: App,
+    private source: CalendarSource,
+    private diagnostics: FeedDiagnostics,
+    private onOpenSettings: () => void
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    const diag = this.diagnostics;
+    const formatTime = (iso?: string) => (iso ? moment(iso).format("MMM D, YYYY h:mm A") : "Never");
+
+    this.titleEl.setText(this.source.name);
+
+    contentEl.createEl("p", {
+      cls: "spcalendar-status-error",
+      text: diag.error ?? "Loaded successfully.",
+    });
+
+    const details = contentEl.createEl("dl", { cls: "spcalendar-status-details" });
+    const row = (label: string, value: string) => {
+      details.createEl("dt", { text: label });
+      details.createEl("dd", { text: value });
+    };
+    row("Status", STATUS_LABELS[diag.status]);
+    row("Events shown", String(diag.eventCount));
+    row("Last success", formatTime(diag.lastSuccess));
+    if (diag.staleSince) row("Showing cached copy from", formatTime(diag.staleSince));
+
+    new Setting(contentEl)
+      .addButton((btn) =>
+        btn.setButtonText("Open Settings").onClick(() => {
+          this.close();
+          this.onOpenSettings();
+        })
+      )
+      .addButton((btn) => btn.setButtonText("Close").setCta().onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
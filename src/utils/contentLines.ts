@@ -0,0 +1,221 @@
+/**
+ * RFC 5545 content-line tokenizer.
+ * Turns raw iCalendar text into property/parameter/value objects grouped
+ * into their BEGIN/END components.
+ */
+
+export interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface Component {
+  name: string;
+  props: ContentLine[];
+  children: Component[];
+}
+
+/**
+ * A component found by scanComponents, still as unparsed (unfolded) lines
+ * from its BEGIN line to its END line.
+ */
+export interface RawComponent {
+  name: string;
+  lines: string[];
+}
+
+/**
+ * Iterates over the logical lines of the text, unfolding continuation lines
+ * as it goes instead of copying the whole text first.
+ */
+export function* readLines(text: string): Generator<string> {
+  let current: string | null = null;
+  let pos = 0;
+
+  while (pos < text.length) {
+    let nl = text.indexOf("\n", pos);
+    if (nl < 0) nl = text.length;
+    let line = text.slice(pos, nl);
+    if (line.endsWith("\r")) line = line.slice(0, -1);
+    pos = nl + 1;
+
+    if (current !== null && (line[0] === " " || line[0] === "\t")) {
+      current += line.slice(1);
+      continue;
+    }
+    if (current !== null && current.trim()) yield current;
+    current = line;
+  }
+  if (current !== null && current.trim()) yield current;
+}
+
+/**
+ * Parses a single line like
+ * ATTENDEE;CN="Doe, Jane";ROLE=REQ-PARTICIPANT:mailto:jane@example.com
+ * Quoted parameter values may contain ':', ';' and ','.
+ * Multi-valued parameters are kept comma-joined.
+ */
+export function parseContentLine(line: string): ContentLine | null {
+  const nameMatch = /^[A-Za-z0-9-]+/.exec(line);
+  if (!nameMatch) return null;
+
+  const name = nameMatch[0].toUpperCase();
+  const params: Record<string, string> = {};
+  let pos = name.length;
+
+  while (line[pos] === ";") {
+    const eq = line.indexOf("=", pos);
+    if (eq < 0) return null;
+    const paramName = line.slice(pos + 1, eq).trim().toUpperCase();
+    pos = eq + 1;
+
+    const values: string[] = [];
+    for (;;) {
+      if (line[pos] === '"') {
+        const close = line.indexOf('"', pos + 1);
+        if (close < 0) return null;
+        values.push(line.slice(pos + 1, close));
+        pos = close + 1;
+      } else {
+        // Tolerate unquoted Outlook labels like TZID=(UTC+01:00) Amsterdam, Berlin
+        const label = /^\((?:UTC|GMT)[^)]*\)/i.exec(line.slice(pos))?.[0] ?? "";
+        const rest = /^[^;:,"]*/.exec(line.slice(pos + label.length))![0];
+        const raw = label + rest;
+        values.push(raw);
+        pos += raw.length;
+      }
+      if (line[pos] !== ",") break;
+      pos++;
+    }
+    params[paramName] = values.join(",").trim();
+  }
+
+  if (line[pos] !== ":") return null;
+  return { name, params, value: line.slice(pos + 1).trim() };
+}
+
+/**
+ * Parses iCalendar text into its top-level components (usually one VCALENDAR).
+ * Malformed lines are skipped.
+ */
+export function parseComponents(text: string): Component[] {
+  return parseComponentLines(readLines(text));
+}
+
+/**
+ * Same as parseComponents, for lines that are already unfolded.
+ */
+export function parseComponentLines(lines: Iterable<string>): Component[] {
+  const roots: Component[] = [];
+  const stack: Component[] = [];
+
+  for (const line of lines) {
+    const prop = parseContentLine(line.trim());
+    if (!prop) continue;
+
+    if (prop.name === "BEGIN") {
+      const comp: Component = { name: prop.value.toUpperCase(), props: [], children: [] };
+      if (stack.length) stack[stack.length - 1].children.push(comp);
+      else roots.push(comp);
+      stack.push(comp);
+    } else if (prop.name === "END") {
+      // Pop back to the matching component, tolerating missing END lines
+      const name = prop.value.toUpperCase();
+      const idx = stack.map((c) => c.name).lastIndexOf(name);
+      if (idx > -1) stack.length = idx;
+    } else if (stack.length) {
+      stack[stack.length - 1].props.push(prop);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Streams the components with the given names (e.g. VEVENT) out of the text
+ * one at a time, without descending into matches. Lines are left unparsed so
+ * callers can cheaply inspect and discard components they don't need.
+ */
+export function* scanComponents(text: string, names: string[]): Generator<RawComponent> {
+  let current: RawComponent | null = null;
+  // Names of the components open inside the current match
+  const open: string[] = [];
+
+  for (const raw of readLines(text)) {
+    const line = raw.trim();
+    // Cheap first-letter check before running the regex on every line
+    const first = line[0]?.toUpperCase();
+    const marker = first === "B" || first === "E" ? /^(BEGIN|END):(.+)$/i.exec(line) : null;
+    const name = marker?.[2].trim().toUpperCase();
+
+    if (!current) {
+      if (marker?.[1].toUpperCase() === "BEGIN" && names.includes(name!)) {
+        current = { name: name!, lines: [line] };
+        open.push(name!);
+      }
+      continue;
+    }
+
+    current.lines.push(line);
+    if (!marker) continue;
+
+    if (marker[1].toUpperCase() === "BEGIN") {
+      open.push(name!);
+    } else {
+      // Pop back to the matching component, tolerating missing END lines
+      const idx = open.lastIndexOf(name!);
+      if (idx > -1) open.length = idx;
+      else if (name === "VCALENDAR") open.length = 0;
+      if (!open.length) {
+        yield current;
+        current = null;
+      }
+    }
+  }
+
+  if (current) yield current;
+}
+
+/**
+ * Collects every component with the given name, without descending into matches.
+ */
+export function findComponents(components: Component[], name: string): Component[] {
+  const found: Component[] = [];
+  for (const comp of components) {
+    if (comp.name === name) found.push(comp);
+    else found.push(...findComponents(comp.children, name));
+  }
+  return found;
+}
+
+/**
+ * Resolves TEXT escapes: \\ \; \, \n and \N.
+ */
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+}
+
+/**
+ * Splits a comma-separated TEXT list (e.g. CATEGORIES), honoring escaped commas.
+ */
+export function splitTextList(value: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === "\\" && i + 1 < value.length) {
+      current += c + value[++i];
+    } else if (c === ",") {
+      items.push(current);
+      current = "";
+    } else {
+      current += c;
+    }
+  }
+  items.push(current);
+
+  return items.map((v) => unescapeText(v).trim()).filter(Boolean);
+}
@@ -0,0 +1,40 @@
+import moment from "moment";
+import type { CalendarEvent } from "../types";
+
+/**
+ * Local days (YYYY-MM-DD) covered by an event. All-day end dates are
+ * exclusive, and a timed event ending at midnight does not spill over.
+ */
+export function getEventDays(e: CalendarEvent): string[] {
+  const first = moment(e.start).startOf("day");
+  if (!first.isValid()) return ["unknown"];
+
+  const end = moment(e.end || e.start);
+  const last = end.clone().startOf("day");
+  if (e.allDay || end.isSame(last)) last.subtract(1, "day");
+  if (last.isBefore(first)) return [first.format("YYYY-MM-DD")];
+
+  const days: string[] = [];
+  for (const d = first.clone(); !d.isAfter(last); d.add(1, "day")) {
+    days.push(d.format("YYYY-MM-DD"));
+  }
+  return days;
+}
+
+/**
+ * Whether the event is listed without clock times: all-day events and
+ * events of 24 hours or more. Shorter events crossing midnight keep their
+ * times on both days.
+ */
+export function isFullDay(e: CalendarEvent): boolean {
+  if (e.allDay) return true;
+  return moment(e.end || e.start).diff(moment(e.start), "hours", true) >= 24;
+}
+
+/**
+ * Sort order within a day: all-day and multi-day events first, then by
+ * start (latest first with `order` -1).
+ */
+export function compareByTime(a: CalendarEvent, b: CalendarEvent, order: 1 | -1 = 1): number {
+  return Number(isFullDay(b)) - Number(isFullDay(a)) || a.start.localeCompare(b.start) * order;
+}
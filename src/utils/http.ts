@@ -0,0 +1,93 @@
+/**
+ * Small HTTP helpers shared by the feed and CalDAV clients.
+ */
+
+import type { CalendarSource } from "../types";
+
+/**
+ * Builds an HTTP Basic Authorization header value. Credentials are UTF-8
+ * encoded first, since btoa() alone rejects non-Latin-1 characters.
+ */
+export function basicAuthHeader(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return `Basic ${btoa(binary)}`;
+}
+
+/**
+ * Rewrites webcal:// and webcals:// links (as shared by Apple and Google)
+ * to https://, which is what the servers actually speak.
+ */
+export function toHttpUrl(url: string): string {
+  return url.trim().replace(/^webcals?:\/\//i, "https://");
+}
+
+/**
+ * Builds the request headers for a feed from its custom headers and credentials.
+ */
+export function feedRequestHeaders(src: CalendarSource): Record<string, string> {
+  const headers: Record<string, string> = { ...(src.headers ?? {}) };
+
+  if (src.auth === "basic" && src.username) {
+    headers["Authorization"] = basicAuthHeader(src.username, src.password ?? "");
+  } else if (src.auth === "bearer" && src.token) {
+    headers["Authorization"] = `Bearer ${src.token.trim()}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Parses "Name: value" lines into a header map, skipping malformed lines.
+ */
+export function parseHeaderLines(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    const name = idx > 0 ? line.slice(0, idx).trim() : "";
+    if (name) headers[name] = line.slice(idx + 1).trim();
+  }
+  return headers;
+}
+
+/**
+ * Reads a response header regardless of the casing the server used.
+ */
+export function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  for (const key in headers ?? {}) {
+    if (key.toLowerCase() === lower) return headers![key];
+  }
+  return undefined;
+}
+
+/**
+ * A response with an unexpected HTTP status.
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Rejects with a TimeoutError when the promise hasn't settled within `ms`.
+ * requestUrl has no timeout of its own, so a hanging server would otherwise
+ * block the refresh indefinitely.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => reject(new TimeoutError(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => window.clearTimeout(timer));
+}
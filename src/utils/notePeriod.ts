@@ -0,0 +1,42 @@
+import type { TFile } from "obsidian";
+import moment from "moment";
+import { getDateFromFile } from "obsidian-daily-notes-interface";
+import type { IGranularity } from "obsidian-daily-notes-interface";
+
+export interface NotePeriod {
+  granularity: IGranularity;
+  from: moment.Moment;
+  to: moment.Moment;
+}
+
+const GRANULARITIES: IGranularity[] = ["day", "week", "month"];
+
+/**
+ * Days covered by a daily, weekly or monthly note, read from its file name
+ * with the formats of the (periodic) notes settings. Null for other notes.
+ */
+export function getNotePeriod(file: TFile): NotePeriod | null {
+  if (file.extension !== "md") return null;
+  for (const granularity of GRANULARITIES) {
+    const date = getDateFromFile(file, granularity);
+    if (!date) continue;
+    // Weeks start on the locale's first day, like the weekly notes plugin
+    return {
+      granularity,
+      from: date.clone().startOf(granularity),
+      to: date.clone().endOf(granularity).startOf("day"),
+    };
+  }
+  return null;
+}
+
+/**
+ * Local days (YYYY-MM-DD) from `from` to `to`, both included.
+ */
+export function daysBetween(from: moment.Moment, to: moment.Moment): string[] {
+  const days: string[] = [];
+  for (const d = from.clone().startOf("day"); !d.isAfter(to, "day"); d.add(1, "day")) {
+    days.push(d.format("YYYY-MM-DD"));
+  }
+  return days;
+}
@@ -1,26 +1,356 @@
 /**
- * Maps common Windows / Microsoft TZIDs to IANA time zones.
+ * Maps Windows / Microsoft TZIDs to IANA time zones.
  * Used by the calendar parser to ensure correct UTC conversion.
+ *
+ * WINDOWS_ZONES follows the CLDR windowsZones table (territory "001").
+ * DISPLAY_NAMES covers the "(UTC+hh:mm) City, City" labels Outlook and
+ * Exchange sometimes write instead of the zone ID; the offset prefix is
+ * stripped before lookup.
  */
 
+const WINDOWS_ZONES: Record<string, string> = {
+  "Dateline Standard Time": "Etc/GMT+12",
+  "UTC-11": "Etc/GMT+11",
+  "Aleutian Standard Time": "America/Adak",
+  "Hawaiian Standard Time": "Pacific/Honolulu",
+  "Marquesas Standard Time": "Pacific/Marquesas",
+  "Alaskan Standard Time": "America/Anchorage",
+  "UTC-09": "Etc/GMT+9",
+  "Pacific Standard Time (Mexico)": "America/Tijuana",
+  "UTC-08": "Etc/GMT+8",
+  "Pacific Standard Time": "America/Los_Angeles",
+  "US Mountain Standard Time": "America/Phoenix",
+  "Mountain Standard Time (Mexico)": "America/Mazatlan",
+  "Mountain Standard Time": "America/Denver",
+  "Yukon Standard Time": "America/Whitehorse",
+  "Central America Standard Time": "America/Guatemala",
+  "Central Standard Time": "America/Chicago",
+  "Easter Island Standard Time": "Pacific/Easter",
+  "Central Standard Time (Mexico)": "America/Mexico_City",
+  "Canada Central Standard Time": "America/Regina",
+  "SA Pacific Standard Time": "America/Bogota",
+  "Eastern Standard Time (Mexico)": "America/Cancun",
+  "Eastern Standard Time": "America/New_York",
+  "Haiti Standard Time": "America/Port-au-Prince",
+  "Cuba Standard Time": "America/Havana",
+  "US Eastern Standard Time": "America/Indiana/Indianapolis",
+  "Turks And Caicos Standard Time": "America/Grand_Turk",
+  "Paraguay Standard Time": "America/Asuncion",
+  "Atlantic Standard Time": "America/Halifax",
+  "Venezuela Standard Time": "America/Caracas",
+  "Central Brazilian Standard Time": "America/Cuiaba",
+  "SA Western Standard Time": "America/La_Paz",
+  "Pacific SA Standard Time": "America/Santiago",
+  "Newfoundland Standard Time": "America/St_Johns",
+  "Tocantins Standard Time": "America/Araguaina",
+  "E. South America Standard Time": "America/Sao_Paulo",
+  "SA Eastern Standard Time": "America/Cayenne",
+  "Argentina Standard Time": "America/Argentina/Buenos_Aires",
+  "Greenland Standard Time": "America/Godthab",
+  "Montevideo Standard Time": "America/Montevideo",
+  "Magallanes Standard Time": "America/Punta_Arenas",
+  "Saint Pierre Standard Time": "America/Miquelon",
+  "Bahia Standard Time": "America/Bahia",
+  "UTC-02": "Etc/GMT+2",
+  "Mid-Atlantic Standard Time": "Etc/GMT+2",
+  "Azores Standard Time": "Atlantic/Azores",
+  "Cape Verde Standard Time": "Atlantic/Cape_Verde",
+  "UTC": "UTC",
+  "GMT Standard Time": "Europe/London",
+  "Greenwich Standard Time": "Atlantic/Reykjavik",
+  "Sao Tome Standard Time": "Africa/Sao_Tome",
+  "Morocco Standard Time": "Africa/Casablanca",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "Romance Standard Time": "Europe/Paris",
+  "Central European Standard Time": "Europe/Warsaw",
+  "W. Central Africa Standard Time": "Africa/Lagos",
+  "Jordan Standard Time": "Asia/Amman",
+  "GTB Standard Time": "Europe/Bucharest",
+  "Middle East Standard Time": "Asia/Beirut",
+  "Egypt Standard Time": "Africa/Cairo",
+  "E. Europe Standard Time": "Europe/Chisinau",
+  "Syria Standard Time": "Asia/Damascus",
+  "West Bank Standard Time": "Asia/Hebron",
+  "South Africa Standard Time": "Africa/Johannesburg",
+  "FLE Standard Time": "Europe/Kiev",
+  "Israel Standard Time": "Asia/Jerusalem",
+  "South Sudan Standard Time": "Africa/Juba",
+  "Kaliningrad Standard Time": "Europe/Kaliningrad",
+  "Sudan Standard Time": "Africa/Khartoum",
+  "Libya Standard Time": "Africa/Tripoli",
+  "Namibia Standard Time": "Africa/Windhoek",
+  "Arabic Standard Time": "Asia/Baghdad",
+  "Turkey Standard Time": "Europe/Istanbul",
+  "Arab Standard Time": "Asia/Riyadh",
+  "Belarus Standard Time": "Europe/Minsk",
+  "Russian Standard Time": "Europe/Moscow",
+  "E. Africa Standard Time": "Africa/Nairobi",
+  "Volgograd Standard Time": "Europe/Volgograd",
+  "Iran Standard Time": "Asia/Tehran",
+  "Arabian Standard Time": "Asia/Dubai",
+  "Astrakhan Standard Time": "Europe/Astrakhan",
+  "Azerbaijan Standard Time": "Asia/Baku",
+  "Russia Time Zone 3": "Europe/Samara",
+  "Mauritius Standard Time": "Indian/Mauritius",
+  "Saratov Standard Time": "Europe/Saratov",
+  "Georgian Standard Time": "Asia/Tbilisi",
+  "Caucasus Standard Time": "Asia/Yerevan",
+  "Armenian Standard Time": "Asia/Yerevan",
+  "Afghanistan Standard Time": "Asia/Kabul",
+  "West Asia Standard Time": "Asia/Tashkent",
+  "Ekaterinburg Standard Time": "Asia/Yekaterinburg",
+  "Pakistan Standard Time": "Asia/Karachi",
+  "Qyzylorda Standard Time": "Asia/Qyzylorda",
+  "India Standard Time": "Asia/Kolkata",
+  "Sri Lanka Standard Time": "Asia/Colombo",
+  "Nepal Standard Time": "Asia/Kathmandu",
+  "Central Asia Standard Time": "Asia/Bishkek",
+  "Bangladesh Standard Time": "Asia/Dhaka",
+  "Omsk Standard Time": "Asia/Omsk",
+  "Myanmar Standard Time": "Asia/Yangon",
+  "SE Asia Standard Time": "Asia/Bangkok",
+  "Altai Standard Time": "Asia/Barnaul",
+  "W. Mongolia Standard Time": "Asia/Hovd",
+  "North Asia Standard Time": "Asia/Krasnoyarsk",
+  "N. Central Asia Standard Time": "Asia/Novosibirsk",
+  "Tomsk Standard Time": "Asia/Tomsk",
+  "China Standard Time": "Asia/Shanghai",
+  "North Asia East Standard Time": "Asia/Irkutsk",
+  "Singapore Standard Time": "Asia/Singapore",
+  "W. Australia Standard Time": "Australia/Perth",
+  "Taipei Standard Time": "Asia/Taipei",
+  "Ulaanbaatar Standard Time": "Asia/Ulaanbaatar",
+  "Aus Central W. Standard Time": "Australia/Eucla",
+  "Transbaikal Standard Time": "Asia/Chita",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "North Korea Standard Time": "Asia/Pyongyang",
+  "Korea Standard Time": "Asia/Seoul",
+  "Yakutsk Standard Time": "Asia/Yakutsk",
+  "Cen. Australia Standard Time": "Australia/Adelaide",
+  "AUS Central Standard Time": "Australia/Darwin",
+  "E. Australia Standard Time": "Australia/Brisbane",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "West Pacific Standard Time": "Pacific/Port_Moresby",
+  "Tasmania Standard Time": "Australia/Hobart",
+  "Vladivostok Standard Time": "Asia/Vladivostok",
+  "Lord Howe Standard Time": "Australia/Lord_Howe",
+  "Bougainville Standard Time": "Pacific/Bougainville",
+  "Russia Time Zone 10": "Asia/Srednekolymsk",
+  "Magadan Standard Time": "Asia/Magadan",
+  "Norfolk Standard Time": "Pacific/Norfolk",
+  "Sakhalin Standard Time": "Asia/Sakhalin",
+  "Central Pacific Standard Time": "Pacific/Guadalcanal",
+  "Russia Time Zone 11": "Asia/Kamchatka",
+  "Kamchatka Standard Time": "Asia/Kamchatka",
+  "New Zealand Standard Time": "Pacific/Auckland",
+  "UTC+12": "Etc/GMT-12",
+  "Fiji Standard Time": "Pacific/Fiji",
+  "Chatham Islands Standard Time": "Pacific/Chatham",
+  "UTC+13": "Etc/GMT-13",
+  "Tonga Standard Time": "Pacific/Tongatapu",
+  "Samoa Standard Time": "Pacific/Apia",
+  "Line Islands Standard Time": "Pacific/Kiritimati",
+  // Retired IDs still found in older Exchange exports
+  "Mexico Standard Time": "America/Mexico_City",
+  "Mexico Standard Time 2": "America/Chihuahua",
+};
+
+const DISPLAY_NAMES: Record<string, string> = {
+  "International Date Line West": "Etc/GMT+12",
+  "Coordinated Universal Time-11": "Etc/GMT+11",
+  "Aleutian Islands": "America/Adak",
+  "Hawaii": "Pacific/Honolulu",
+  "Marquesas Islands": "Pacific/Marquesas",
+  "Alaska": "America/Anchorage",
+  "Coordinated Universal Time-09": "Etc/GMT+9",
+  "Baja California": "America/Tijuana",
+  "Coordinated Universal Time-08": "Etc/GMT+8",
+  "Pacific Time (US & Canada)": "America/Los_Angeles",
+  "Pacific Time": "America/Los_Angeles",
+  "Arizona": "America/Phoenix",
+  "La Paz, Mazatlan": "America/Mazatlan",
+  "Chihuahua, La Paz, Mazatlan": "America/Mazatlan",
+  "Mountain Time (US & Canada)": "America/Denver",
+  "Mountain Time": "America/Denver",
+  "Yukon": "America/Whitehorse",
+  "Central America": "America/Guatemala",
+  "Central Time (US & Canada)": "America/Chicago",
+  "Central Time": "America/Chicago",
+  "Easter Island": "Pacific/Easter",
+  "Guadalajara, Mexico City, Monterrey": "America/Mexico_City",
+  "Saskatchewan": "America/Regina",
+  "Bogota, Lima, Quito, Rio Branco": "America/Bogota",
+  "Bogota, Lima, Quito": "America/Bogota",
+  "Chetumal": "America/Cancun",
+  "Eastern Time (US & Canada)": "America/New_York",
+  "Eastern Time": "America/New_York",
+  "Haiti": "America/Port-au-Prince",
+  "Havana": "America/Havana",
+  "Indiana (East)": "America/Indiana/Indianapolis",
+  "Turks and Caicos": "America/Grand_Turk",
+  "Asuncion": "America/Asuncion",
+  "Atlantic Time (Canada)": "America/Halifax",
+  "Caracas": "America/Caracas",
+  "Cuiaba": "America/Cuiaba",
+  "Georgetown, La Paz, Manaus, San Juan": "America/La_Paz",
+  "Santiago": "America/Santiago",
+  "Newfoundland": "America/St_Johns",
+  "Araguaina": "America/Araguaina",
+  "Brasilia": "America/Sao_Paulo",
+  "Cayenne, Fortaleza": "America/Cayenne",
+  "City of Buenos Aires": "America/Argentina/Buenos_Aires",
+  "Buenos Aires": "America/Argentina/Buenos_Aires",
+  "Greenland": "America/Godthab",
+  "Montevideo": "America/Montevideo",
+  "Punta Arenas": "America/Punta_Arenas",
+  "Saint Pierre and Miquelon": "America/Miquelon",
+  "Salvador": "America/Bahia",
+  "Coordinated Universal Time-02": "Etc/GMT+2",
+  "Mid-Atlantic - Old": "Etc/GMT+2",
+  "Azores": "Atlantic/Azores",
+  "Cabo Verde Is.": "Atlantic/Cape_Verde",
+  "Cape Verde Is.": "Atlantic/Cape_Verde",
+  "Coordinated Universal Time": "UTC",
+  "Dublin, Edinburgh, Lisbon, London": "Europe/London",
+  "Greenwich Mean Time : Dublin, Edinburgh, Lisbon, London": "Europe/London",
+  "Monrovia, Reykjavik": "Atlantic/Reykjavik",
+  "Sao Tome": "Africa/Sao_Tome",
+  "Casablanca": "Africa/Casablanca",
+  "Amsterdam, Berlin, Bern, Rome, Stockholm, Vienna": "Europe/Berlin",
+  "Belgrade, Bratislava, Budapest, Ljubljana, Prague": "Europe/Budapest",
+  "Brussels, Copenhagen, Madrid, Paris": "Europe/Paris",
+  "Sarajevo, Skopje, Warsaw, Zagreb": "Europe/Warsaw",
+  "West Central Africa": "Africa/Lagos",
+  "Amman": "Asia/Amman",
+  "Athens, Bucharest": "Europe/Bucharest",
+  "Beirut": "Asia/Beirut",
+  "Cairo": "Africa/Cairo",
+  "Chisinau": "Europe/Chisinau",
+  "Damascus": "Asia/Damascus",
+  "Gaza, Hebron": "Asia/Hebron",
+  "Harare, Pretoria": "Africa/Johannesburg",
+  "Helsinki, Kyiv, Riga, Sofia, Tallinn, Vilnius": "Europe/Kiev",
+  "Helsinki, Kiev, Riga, Sofia, Tallinn, Vilnius": "Europe/Kiev",
+  "Jerusalem": "Asia/Jerusalem",
+  "Juba": "Africa/Juba",
+  "Kaliningrad": "Europe/Kaliningrad",
+  "Khartoum": "Africa/Khartoum",
+  "Tripoli": "Africa/Tripoli",
+  "Windhoek": "Africa/Windhoek",
+  "Baghdad": "Asia/Baghdad",
+  "Istanbul": "Europe/Istanbul",
+  "Kuwait, Riyadh": "Asia/Riyadh",
+  "Minsk": "Europe/Minsk",
+  "Moscow, St. Petersburg": "Europe/Moscow",
+  "Moscow, St. Petersburg, Volgograd": "Europe/Moscow",
+  "Nairobi": "Africa/Nairobi",
+  "Volgograd": "Europe/Volgograd",
+  "Tehran": "Asia/Tehran",
+  "Abu Dhabi, Muscat": "Asia/Dubai",
+  "Astrakhan, Ulyanovsk": "Europe/Astrakhan",
+  "Baku": "Asia/Baku",
+  "Izhevsk, Samara": "Europe/Samara",
+  "Port Louis": "Indian/Mauritius",
+  "Saratov": "Europe/Saratov",
+  "Tbilisi": "Asia/Tbilisi",
+  "Yerevan": "Asia/Yerevan",
+  "Kabul": "Asia/Kabul",
+  "Ashgabat, Tashkent": "Asia/Tashkent",
+  "Ekaterinburg": "Asia/Yekaterinburg",
+  "Islamabad, Karachi": "Asia/Karachi",
+  "Qyzylorda": "Asia/Qyzylorda",
+  "Chennai, Kolkata, Mumbai, New Delhi": "Asia/Kolkata",
+  "Sri Jayawardenepura": "Asia/Colombo",
+  "Kathmandu": "Asia/Kathmandu",
+  "Astana": "Asia/Almaty",
+  "Bishkek": "Asia/Bishkek",
+  "Dhaka": "Asia/Dhaka",
+  "Omsk": "Asia/Omsk",
+  "Yangon (Rangoon)": "Asia/Yangon",
+  "Bangkok, Hanoi, Jakarta": "Asia/Bangkok",
+  "Barnaul, Gorno-Altaysk": "Asia/Barnaul",
+  "Hovd": "Asia/Hovd",
+  "Krasnoyarsk": "Asia/Krasnoyarsk",
+  "Novosibirsk": "Asia/Novosibirsk",
+  "Tomsk": "Asia/Tomsk",
+  "Beijing, Chongqing, Hong Kong, Urumqi": "Asia/Shanghai",
+  "Irkutsk": "Asia/Irkutsk",
+  "Kuala Lumpur, Singapore": "Asia/Singapore",
+  "Perth": "Australia/Perth",
+  "Taipei": "Asia/Taipei",
+  "Ulaanbaatar": "Asia/Ulaanbaatar",
+  "Eucla": "Australia/Eucla",
+  "Chita": "Asia/Chita",
+  "Osaka, Sapporo, Tokyo": "Asia/Tokyo",
+  "Pyongyang": "Asia/Pyongyang",
+  "Seoul": "Asia/Seoul",
+  "Yakutsk": "Asia/Yakutsk",
+  "Adelaide": "Australia/Adelaide",
+  "Darwin": "Australia/Darwin",
+  "Brisbane": "Australia/Brisbane",
+  "Canberra, Melbourne, Sydney": "Australia/Sydney",
+  "Guam, Port Moresby": "Pacific/Port_Moresby",
+  "Hobart": "Australia/Hobart",
+  "Vladivostok": "Asia/Vladivostok",
+  "Lord Howe Island": "Australia/Lord_Howe",
+  "Bougainville Island": "Pacific/Bougainville",
+  "Chokurdakh": "Asia/Srednekolymsk",
+  "Magadan": "Asia/Magadan",
+  "Norfolk Island": "Pacific/Norfolk",
+  "Sakhalin": "Asia/Sakhalin",
+  "Solomon Is., New Caledonia": "Pacific/Guadalcanal",
+  "Anadyr, Petropavlovsk-Kamchatsky": "Asia/Kamchatka",
+  "Petropavlovsk-Kamchatsky - Old": "Asia/Kamchatka",
+  "Auckland, Wellington": "Pacific/Auckland",
+  "Coordinated Universal Time+12": "Etc/GMT-12",
+  "Fiji": "Pacific/Fiji",
+  "Chatham Islands": "Pacific/Chatham",
+  "Coordinated Universal Time+13": "Etc/GMT-13",
+  "Nuku'alofa": "Pacific/Tongatapu",
+  "Samoa": "Pacific/Apia",
+  "Kiritimati Island": "Pacific/Kiritimati",
+};
+
+// Case-insensitive lookup over both tables
+const LOOKUP = new Map<string, string>(
+  Object.entries({ ...DISPLAY_NAMES, ...WINDOWS_ZONES }).map(([k, v]) => [k.toLowerCase(), v])
+);
+
 export function normalizeTZID(tz?: string): string | undefined {
   if (!tz) return tz;
 
-  const map: Record<string, string> = {
-    "Eastern Standard Time": "America/New_York",
-    "Central Standard Time": "America/Chicago",
-    "Mountain Standard Time": "America/Denver",
-    "Pacific Standard Time": "America/Los_Angeles",
-    "Atlantic Standard Time": "America/Halifax",
-    "Newfoundland Standard Time": "America/St_Johns",
-    "Greenwich Standard Time": "Etc/Greenwich",
-    "UTC": "UTC",
-    "Coordinated Universal Time": "UTC",
-    "Eastern Time": "America/New_York",
-    "Eastern Time (US & Canada)": "America/New_York",
-  };
-
-  // Clean up things like "(UTC-05:00) Eastern Time (US & Canada)"
-  const cleaned = tz.replace(/\(UTC[^\)]*\)\s*/i, "").trim();
-  return map[cleaned] || tz;
+  const direct = LOOKUP.get(tz.trim().toLowerCase());
+  if (direct) return direct;
+
+  // Clean up things like "(UTC-05:00) Eastern Time (US & Canada)" or "(GMT+01:00) ..."
+  const cleaned = tz.replace(/^\s*\((?:UTC|GMT)[^)]*\)\s*/i, "").trim();
+  return LOOKUP.get(cleaned.toLowerCase()) || tz;
+}
+
+const zoneSupport = new Map<string, boolean>();
+
+/**
+ * Whether the runtime's Intl implementation knows the given IANA zone.
+ */
+export function isSupportedTimeZone(tz: string): boolean {
+  let ok = zoneSupport.get(tz);
+  if (ok === undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: tz });
+      ok = true;
+    } catch {
+      ok = false;
+    }
+    zoneSupport.set(tz, ok);
+  }
+  return ok;
+}
+
+/**
+ * Normalizes a TZID and returns it only if it can actually be used for conversion.
+ */
+export function resolveTZID(tz?: string): string | undefined {
+  const normalized = normalizeTZID(tz);
+  return normalized && isSupportedTimeZone(normalized) ? normalized : undefined;
 }
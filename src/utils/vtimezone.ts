@@ -0,0 +1,189 @@
+/**
+ * Time zones defined inside a feed via BEGIN:VTIMEZONE blocks.
+ * Exchange often publishes custom TZIDs that only make sense with these
+ * definitions, so they take precedence over IANA lookups.
+ */
+
+import { RRule } from "rrule";
+import type { Component } from "./contentLines";
+import { parseWallTime } from "./wallTime";
+
+/**
+ * A STANDARD or DAYLIGHT sub-component. Onsets are wall clock times
+ * expressed in the offset that was in effect before the change.
+ */
+interface Observance {
+  offsetFrom: number; // ms
+  offsetTo: number; // ms
+  start: Date;
+  rule?: RRule;
+  rdates: Date[];
+  onsetsByYear: Map<number, Date[]>;
+}
+
+export interface VTimezone {
+  tzid: string;
+  observances: Observance[];
+}
+
+/**
+ * Parses a UTC offset like -0500 or +053000 into milliseconds.
+ */
+function parseOffset(value: string): number | null {
+  const m = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!m) return null;
+  const [, sign, hh, mm, ss = "00"] = m;
+  const ms = ((+hh * 60 + +mm) * 60 + +ss) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function parseObservance(comp: Component): Observance | null {
+  let offsetFrom: number | null = null;
+  let offsetTo: number | null = null;
+  let start: Date | null = null;
+  let rrule = "";
+  const rdates: Date[] = [];
+
+  for (const prop of comp.props) {
+    switch (prop.name) {
+      case "TZOFFSETFROM": offsetFrom = parseOffset(prop.value); break;
+      case "TZOFFSETTO": offsetTo = parseOffset(prop.value); break;
+      case "DTSTART": start = parseWallTime(prop.value); break;
+      case "RRULE": rrule = prop.value; break;
+      case "RDATE":
+        for (const v of prop.value.split(",")) {
+          const d = parseWallTime(v.split("/")[0].trim());
+          if (d) rdates.push(d);
+        }
+        break;
+    }
+  }
+
+  if (offsetTo === null || !start) return null;
+  if (offsetFrom === null) offsetFrom = offsetTo;
+
+  let rule: RRule | undefined;
+  if (rrule) {
+    try {
+      const options = RRule.parseString(rrule);
+      // A UTC UNTIL is moved onto the same wall clock as DTSTART
+      if (options.until && /UNTIL=[0-9T]+Z/i.test(rrule)) {
+        options.until = new Date(options.until.getTime() + offsetFrom);
+      }
+      // Yearly rules don't depend on the DTSTART year, so start near the present
+      // instead of 1601 to keep lookups cheap
+      const dtstart =
+        options.freq === RRule.YEARLY && !options.count && start.getUTCFullYear() < 1970
+          ? new Date(Date.UTC(1970, start.getUTCMonth(), start.getUTCDate(),
+              start.getUTCHours(), start.getUTCMinutes(), start.getUTCSeconds()))
+          : start;
+      rule = new RRule({ ...options, dtstart });
+    } catch (err) {
+      console.warn("[OCE] Ignoring invalid VTIMEZONE rule:", rrule, err);
+    }
+  }
+
+  return { offsetFrom, offsetTo, start, rule, rdates, onsetsByYear: new Map() };
+}
+
+/**
+ * Collects the VTIMEZONE definitions found in parsed components, keyed by TZID.
+ */
+export function parseVTimezones(components: Component[]): Record<string, VTimezone> {
+  const zones: Record<string, VTimezone> = {};
+  const stack = [...components];
+
+  while (stack.length) {
+    const comp = stack.pop()!;
+    if (comp.name !== "VTIMEZONE") {
+      stack.push(...comp.children);
+      continue;
+    }
+
+    const tzid = comp.props.find((p) => p.name === "TZID")?.value;
+    if (!tzid) continue;
+
+    const observances = comp.children
+      .filter((c) => c.name === "STANDARD" || c.name === "DAYLIGHT")
+      .map(parseObservance)
+      .filter((o): o is Observance => !!o);
+
+    if (observances.length) zones[tzid] = { tzid, observances };
+  }
+
+  return zones;
+}
+
+/**
+ * Returns (and caches) every onset of an observance within a calendar year.
+ */
+function onsetsInYear(o: Observance, year: number): Date[] {
+  let onsets = o.onsetsByYear.get(year);
+  if (!onsets) {
+    const from = new Date(Date.UTC(year, 0, 1));
+    const to = new Date(Date.UTC(year + 1, 0, 1));
+    onsets = [o.start, ...o.rdates].filter((d) => d >= from && d < to);
+    if (o.rule) onsets.push(...o.rule.between(from, to, true));
+    onsets.sort((a, b) => a.getTime() - b.getTime());
+    o.onsetsByYear.set(year, onsets);
+  }
+  return onsets;
+}
+
+/**
+ * Returns the latest onset of an observance at or before the wall time.
+ */
+function lastOnset(o: Observance, wall: Date): number | null {
+  const year = wall.getUTCFullYear();
+  for (const y of [year, year - 1]) {
+    const before = onsetsInYear(o, y).filter((d) => d <= wall);
+    if (before.length) return before[before.length - 1].getTime();
+  }
+
+  // Nothing recent: fall back to the full history of the observance
+  let best = o.start <= wall ? o.start.getTime() : null;
+  const fromRule = o.rule?.before(wall, true);
+  if (fromRule && (best === null || fromRule.getTime() > best)) best = fromRule.getTime();
+  for (const d of o.rdates) {
+    if (d <= wall && (best === null || d.getTime() > best)) best = d.getTime();
+  }
+  return best;
+}
+
+/**
+ * Returns the UTC offset (ms) in effect at the given wall clock time.
+ */
+function offsetAtWall(zone: VTimezone, wall: Date): number {
+  let current: Observance | null = null;
+  let currentOnset = -Infinity;
+
+  for (const o of zone.observances) {
+    const onset = lastOnset(o, wall);
+    if (onset !== null && onset > currentOnset) {
+      current = o;
+      currentOnset = onset;
+    }
+  }
+
+  if (current) return current.offsetTo;
+
+  // Before the first defined transition: use the earliest observance's prior offset
+  const earliest = [...zone.observances].sort((a, b) => a.start.getTime() - b.start.getTime())[0];
+  return earliest.offsetFrom;
+}
+
+/**
+ * Converts a wall clock time in the zone to a UTC instant.
+ */
+export function vtimezoneWallToUTC(zone: VTimezone, wall: Date): Date {
+  return new Date(wall.getTime() - offsetAtWall(zone, wall));
+}
+
+/**
+ * Converts a UTC instant to the wall clock time it shows in the zone.
+ */
+export function vtimezoneUTCToWall(zone: VTimezone, utc: Date): Date {
+  // Guess with the offset at the instant read as wall time, then refine once
+  const guess = new Date(utc.getTime() + offsetAtWall(zone, utc));
+  return new Date(utc.getTime() + offsetAtWall(zone, guess));
+}
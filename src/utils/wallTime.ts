@@ -0,0 +1,23 @@
+/**
+ * Helpers for "wall clock" Dates: Date objects whose UTC fields hold a local
+ * time. Recurrences and time zone rules are evaluated in wall time so DST
+ * changes do not shift occurrences.
+ */
+
+/**
+ * Reads an ICS date or date-time (optionally ending in Z) as a wall clock Date.
+ */
+export function parseWallTime(val: string): Date | null {
+  const m = val.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?)?Z?$/);
+  if (!m) return null;
+  const [, y, mo, d, hh = "00", mm = "00", ss = "00"] = m;
+  return new Date(Date.UTC(+y, +mo - 1, +d, +hh, +mm, +ss));
+}
+
+/**
+ * Formats a wall clock Date back into an ICS date or date-time string.
+ */
+export function formatWallTime(date: Date, dateOnly: boolean): string {
+  const stamp = date.toISOString().replace(/[-:]/g, "").split(".")[0];
+  return dateOnly ? stamp.slice(0, 8) : stamp;
+}